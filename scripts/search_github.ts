@@ -2,63 +2,489 @@
 /**
  * Search GitHub skill registries via README parsing + local fuzzy search.
  *
- * Downloads READMEs from configured registries (via raw.githubusercontent.com,
- * no API quota), parses skill entries, and performs fuzzy matching on
- * name + description + category. Falls back to GitHub Trees API when
- * README parsing yields no results.
+ * Downloads READMEs from configured registries (via raw.githubusercontent.com;
+ * only branch, tree and commit lookups use the API), or their
+ * `.claude-plugin/marketplace.json` plugin manifests when present, parses skill
+ * entries (following links to other markdown pages in the repo), and ranks
+ * them with an inverted index over name + description + category, plus the
+ * SKILL.md body with --deep (BM25-style term weighting, keyword coverage and
+ * Levenshtein typo tolerance). Falls back to GitHub Trees API when README
+ * parsing yields no results.
  *
- * Configuration:
+ * Registries can also live on GitHub Enterprise, GitLab or Gitea (`provider`
+ * and `base_url` in config.yaml), in a local directory (`path`) or behind a
+ * plain git remote (`git`, shallow-cloned into .cache/git/); each is accessed
+ * through a GitProvider.
+ *
+ * Parsed catalogs and HTTP responses are cached on disk (see `cache.ttl` in
+ * config.yaml) and revalidated with ETags once stale.
+ *
+ * Configuration, each layer overriding the one before:
+ *   registries.json — built-in registries (plus built-in defaults for everything else)
+ *   ~/.config/inm-skill-finder/config.yaml — user-level config
  *   config.yaml — unified YAML config (preferences + registries, committed to git)
- *   (Legacy: registries.json + registries.local.json still supported)
+ *   config.local.yaml — local overrides, not committed (legacy registries.local.json too)
  *
  * Usage:
  *   npx -y bun run scripts/search_github.ts keyword1 keyword2
+ *   npx -y bun run scripts/search_github.ts '"pdf export"' -scanned name:invoice
+ *   npx -y bun run scripts/search_github.ts postgres AND backup OR registry:anthropic
+ *   npx -y bun run scripts/search_github.ts pdf --registry anthropics-skills --category Documents --limit 10 --offset 10
+ *   npx -y bun run scripts/search_github.ts '^pdf-' --regex
+ *   npx -y bun run scripts/search_github.ts email --format table|markdown|ndjson|csv
+ *   npx -y bun run scripts/search_github.ts git --tools Bash --no-requires --license MIT
+ *   npx -y bun run scripts/search_github.ts git --metadata
+ *   npx -y bun run scripts/search_github.ts database migration --deep
+ *   npx -y bun run scripts/search_github.ts email --explain
+ *   npx -y bun run scripts/search_github.ts email --why sendgrid-automation
+ *   npx -y bun run scripts/search_github.ts keyword1 --offline
+ *   npx -y bun run scripts/search_github.ts keyword1 --refresh
+ *   npx -y bun run scripts/search_github.ts --clear-cache
+ *   npx -y bun run scripts/search_github.ts --install owner/repo/path/to/skill [--method direct|git] [--location project|global] [--force]
+ *   npx -y bun run scripts/search_github.ts --show owner/repo/path/to/skill [--max-lines N] [--format markdown]
+ *   npx -y bun run scripts/search_github.ts --audit owner/repo/path/to/skill [--format table]
+ *   npx -y bun run scripts/search_github.ts --list-installed [--location project|global]
+ *   npx -y bun run scripts/search_github.ts --uninstall skill-name [--location project|global]
+ *   npx -y bun run scripts/search_github.ts --check-updates
+ *   npx -y bun run scripts/search_github.ts --sync [--location project|global]
+ *   npx -y bun run scripts/search_github.ts --verify [--location project|global]
+ *   npx -y bun run scripts/search_github.ts --show-config [--format table]
+ *   npx -y bun run scripts/search_github.ts --validate-config [--format table]
  *   npx -y bun run scripts/search_github.ts --list-registries
+ *   npx -y bun run scripts/search_github.ts --check-registries [--registry ID] [--format table]
  *   npx -y bun run scripts/search_github.ts --add-registry owner/repo --name "My Skills"
  *   npx -y bun run scripts/search_github.ts --remove-registry owner/repo
  *   npx -y bun run scripts/search_github.ts --disable-registry composio
  *   npx -y bun run scripts/search_github.ts --enable-registry composio
  */
 
-import { readFileSync, writeFileSync, existsSync } from "fs";
-import { resolve, dirname } from "path";
-import { parse as parseYAML } from "yaml";
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  rmSync,
+  renameSync,
+  cpSync,
+  chmodSync,
+  mkdtempSync,
+  statSync,
+} from "fs";
+import { resolve, dirname, join, basename, relative } from "path";
+import { createHash } from "crypto";
+import { homedir, tmpdir } from "os";
+import { spawnSync } from "child_process";
+import { AsyncLocalStorage } from "async_hooks";
+import {
+  parse as parseYAML,
+  stringify as stringifyYAML,
+  parseDocument,
+  Document,
+  LineCounter,
+  YAMLSeq,
+  isMap,
+  isScalar,
+  isSeq,
+} from "yaml";
 
 // --- Types ---
 
+type ProviderType = "github" | "github-enterprise" | "gitlab" | "gitea" | "local" | "git";
+
 interface Registry {
   id: string;
   repo: string;
   name: string;
   description: string;
   enabled: boolean;
+  // Omitted for github.com
+  provider?: ProviderType;
+  base_url?: string;
+  parser?: ParserRules;
+  auth?: RegistryAuth;
+}
+
+/**
+ * Where a private registry's token comes from: an environment variable or a
+ * command that prints it. The token itself never goes in a config file.
+ */
+interface RegistryAuth {
+  token_env?: string;
+  token_command?: string;
+  // Basic auth user for git clones; defaults per provider
+  username?: string;
+  // "owner" also sends the token to other repos of the registry's owner
+  scope?: AuthScope;
+}
+
+type AuthScope = "repo" | "owner";
+
+interface Credentials {
+  token: string;
+  username?: string;
 }
 
 interface RegistryConfig {
   registries: Registry[];
 }
 
+/** A config.yaml registry: exactly one of `url`, `path` or `git`. */
 interface YAMLRegistrySimple {
-  url: string;
+  // Only set for legacy JSON registries
+  id?: string;
+  url?: string;
+  path?: string;
+  git?: string;
   enabled?: boolean;
   name?: string;
   description?: string;
+  provider?: ProviderType;
+  base_url?: string;
+  parser?: ParserRules;
+  auth?: RegistryAuth;
 }
 
+type InstallMethod = 'npx' | 'direct' | 'git' | 'ask';
+type InstallLocation = 'project' | 'global' | 'ask';
+
 interface YAMLConfig {
   preferences?: {
-    install_method?: 'npx' | 'direct' | 'git' | 'ask';
-    install_location?: 'project' | 'global' | 'ask';
+    install_method?: InstallMethod;
+    install_location?: InstallLocation;
+  };
+  cache?: {
+    ttl?: number;
+  };
+  ranking?: Partial<RankingWeights>;
+  security?: {
+    block_at?: RiskLevel | "off";
   };
   registries?: YAMLRegistrySimple[];
 }
 
+type ConfigLayer = "defaults" | "user" | "project" | "local";
+
+interface ConfigFile {
+  layer: ConfigLayer;
+  path: string;
+  exists: boolean;
+}
+
+/** Shape of one config value; `or` allows a second type. */
+interface ConfigSchema {
+  type: "string" | "number" | "boolean" | "object" | "list";
+  values?: readonly (string | number)[];
+  min?: number;
+  fields?: Record<string, ConfigSchema>;
+  items?: ConfigSchema;
+  or?: ConfigSchema;
+}
+
+interface ConfigIssue {
+  severity: "error" | "warning";
+  file: string;
+  line: number | null;
+  // Path of the offending key, e.g. `registries[2].enabled`
+  field: string;
+  message: string;
+}
+
+interface MergedConfig {
+  config: YAMLConfig;
+  // Leaf values by dotted key (`cache.ttl`, `registries[owner/repo].enabled`)
+  values: Record<string, { value: unknown; source: ConfigLayer }>;
+  files: ConfigFile[];
+  // Files declaring each registry, keyed by registryKey()
+  registryFiles: Record<string, string[]>;
+  issues: ConfigIssue[];
+}
+
+// `content` (the SKILL.md body) is only indexed by --deep searches
+type IndexField = "name" | "description" | "category" | "content";
+
+interface RankingWeights {
+  name_boost: number;
+  description_boost: number;
+  category_boost: number;
+  content_boost: number;
+  // BM25 term-frequency saturation and length normalization
+  k1: number;
+  b: number;
+  // Share of the score earned by matching more (and rarer) keywords
+  coverage_weight: number;
+  // Minimum Levenshtein similarity for a typo match
+  typo_threshold: number;
+  // Score bonus per additional registry listing the same skill
+  listing_boost: number;
+}
+
+interface SearchDocument {
+  entry: SkillEntry;
+  registry: Registry;
+  branch: string;
+  format: CatalogFormat;
+  // SKILL.md body and frontmatter, read by --deep
+  content?: string;
+  metadata?: SkillMetadata;
+}
+
+interface SearchIndex {
+  docs: SearchDocument[];
+  // field → token → document → term frequency
+  postings: Record<IndexField, Map<string, Map<number, number>>>;
+  lengths: Record<IndexField, number[]>;
+  avgLength: Record<IndexField, number>;
+}
+
+type MatchRule = "exact" | "substring" | "part" | "levenshtein" | "regex";
+
+type MatchMode = "fuzzy" | "exact" | "regex";
+
+interface TermMatch {
+  term: string;
+  field: IndexField;
+  token: string;
+  rule: MatchRule;
+  // Match strength before field boost and saturation
+  strength: number;
+  score: number;
+  idf?: number;
+}
+
+type QueryField = IndexField | "source" | "registry";
+
+interface QueryTerm {
+  key: string;
+  // Normalized tokens; more than one means the term matches as a phrase
+  tokens: string[];
+  field: QueryField | null;
+}
+
+type QueryNode =
+  | { type: "term"; term: QueryTerm }
+  | { type: "not"; child: QueryNode }
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] };
+
+interface ParsedQuery {
+  root: QueryNode;
+  terms: QueryTerm[];
+  // Non-negated terms that contribute to the score
+  scoring: QueryTerm[];
+}
+
+interface QueryToken {
+  kind: "term" | "and" | "or" | "not" | "lparen" | "rparen";
+  pos: number;
+  text?: string;
+  field?: string;
+  negated?: boolean;
+}
+
+interface RankedDocument {
+  doc: number;
+  score: number;
+  best: number;
+  coverage: number;
+  matches: TermMatch[];
+  // Matched a keyword but failed the boolean query (e.g. a negated term)
+  excluded?: boolean;
+}
+
+interface ScoreExplanation {
+  origin: CatalogFormat;
+  registry: string;
+  score: number;
+  best_term: number;
+  coverage: number;
+  // Registries listing the skill, and the resulting score multiplier
+  listings: number;
+  listing_multiplier: number;
+  matches: {
+    term: string;
+    field: IndexField;
+    token: string;
+    rule: MatchRule;
+    raw: number;
+    weighted: number;
+    idf?: number;
+  }[];
+}
+
+interface SearchRun {
+  registries: Registry[];
+  catalogs: (CacheEntry<RegistryCatalog> | null)[];
+  // Every loaded document, and those left after --category
+  candidates: SearchDocument[];
+  docs: SearchDocument[];
+  ranked: RankedDocument[];
+  results: SkillResult[];
+  page: SkillResult[];
+  resultDocs: Map<SkillResult, number>;
+  // Dropped document → document kept for the same skill
+  duplicates: Map<number, number>;
+  // Results dropped by --tools, --license, --no-requires or the invocation flags
+  metadataFiltered: Set<number>;
+  weights: RankingWeights;
+}
+
 interface SkillEntry {
   name: string;
   description: string;
   category: string;
   url: string;
   source: string;
+  // Set for entries discovered via the Tree API or a plugin manifest
+  raw_url?: string;
+  branch?: string;
+  path?: string;
+  // Set for entries from a plugin marketplace manifest
+  plugin?: string;
+  version?: string;
+}
+
+type ReadmeFormat = "list" | "list-link-only" | "table" | "table-inner-link";
+
+type ParserFormat = "list" | "table" | "tree" | "manifest";
+
+/** Optional per-registry `parser:` rules; without them formats are auto-detected. */
+interface ParserRules {
+  format?: ParserFormat;
+  // 0-based column index or header text
+  columns?: Partial<Record<"name" | "description" | "url" | "category", number | string>>;
+  // Heading levels (1–6) used as categories
+  category_levels?: number[];
+  // Sections under headings starting with these are ignored
+  skip_headings?: string[];
+  // Skill directory globs for tree mode
+  include?: string[];
+  exclude?: string[];
+  // How many links away from the README to follow markdown pages (0 = README only)
+  depth?: number;
+}
+
+interface ReadmeParseOptions {
+  formats?: Partial<Record<ReadmeFormat, number>>;
+  provider?: GitProvider;
+  rules?: ParserRules;
+  // Branch and directory of the page, for relative links
+  branch?: string;
+  dir?: string;
+}
+
+/** How a registry's catalog was obtained. */
+type CatalogFormat = "manifest" | "readme" | "tree";
+
+interface CatalogProbe {
+  url: string;
+  branch: string;
+  found: boolean;
+  entries: number;
+  ms: number;
+}
+
+/** Filled in by fetchRegistryCatalog for --check-registries. */
+interface RegistryTrace {
+  manifest: CatalogProbe[];
+  readme: CatalogProbe[];
+  formats: Partial<Record<ReadmeFormat, number>>;
+  // Markdown pages linked from the README
+  pages: CatalogProbe[];
+  tree: { branch: string; items: number; entries: number; truncated: boolean; ms: number } | null;
+}
+
+interface RegistryHealth {
+  registry: string;
+  repo: string;
+  status: "ok" | "fallback" | "empty" | "unreachable";
+  reachable: boolean;
+  format: CatalogFormat | null;
+  manifest_url: string | null;
+  readme_url: string | null;
+  branch: string | null;
+  formats: Partial<Record<ReadmeFormat, number>>;
+  entries: number;
+  fallback: boolean;
+  tree_truncated: boolean | null;
+  timings_ms: { manifest: number; readme: number; tree: number | null; total: number };
+  manifest_probes: CatalogProbe[];
+  readme_probes: CatalogProbe[];
+  page_probes: CatalogProbe[];
+  // Failed requests (other than 404s), after retries
+  errors: FetchFailure[];
+}
+
+interface RegistryCatalog {
+  branch: string;
+  entries: SkillEntry[];
+  fallback: boolean;
+  // Missing in catalogs cached before manifests were supported
+  format?: CatalogFormat;
+}
+
+/** `.claude-plugin/marketplace.json` */
+interface MarketplaceManifest {
+  name?: string;
+  metadata?: { pluginRoot?: string; version?: string };
+  plugins?: MarketplacePlugin[];
+}
+
+interface MarketplacePlugin {
+  name: string;
+  description?: string;
+  version?: string;
+  category?: string;
+  source?:
+    | string
+    | { source: string; repo?: string; url?: string; ref?: string; path?: string };
+  // Skill directories relative to the plugin root; defaults to skills/*/
+  skills?: string | string[];
+}
+
+interface CacheEntry<T> {
+  key: string;
+  fetched_at: number;
+  etag?: string;
+  data: T;
+}
+
+interface CacheSettings {
+  ttl: number;
+  offline: boolean;
+  refresh: boolean;
+}
+
+interface RateLimitState {
+  host: string;
+  limit: number | null;
+  remaining: number | null;
+  reset: string | null;
+  // A request was refused for exceeding the limit
+  limited: boolean;
+}
+
+interface FetchFailure {
+  url: string;
+  // null for timeouts and network errors
+  status: number | null;
+  error: string;
+}
+
+interface RegistryError {
+  registry: string;
+  // unreachable: no catalog; stale: an expired cached catalog was used;
+  // partial: the catalog loaded but some requests failed
+  status: "unreachable" | "stale" | "partial";
+  error: string;
+  failures: FetchFailure[];
+}
+
+interface CacheStatus {
+  registry: string;
+  fetched_at: string | null;
+  age_seconds: number | null;
+  stale: boolean;
 }
 
 interface SkillResult {
@@ -71,20 +497,199 @@ interface SkillResult {
   path: string;
   description?: string;
   category?: string;
+  plugin?: string;
+  version?: string;
+  // Registry IDs listing this skill
+  listed_in?: string[];
+  // README links resolved to a SKILL.md: the repository holding it
+  repo?: string;
+  // Why a README link was not resolved to a SKILL.md
+  not_skill?: string;
+  // SKILL.md frontmatter, once read ({} when it has none)
+  metadata?: SkillMetadata;
+  // --deep: the passage of the SKILL.md body that matched, matches in **bold**
+  snippet?: string;
+  explain?: ScoreExplanation;
+}
+
+/** SKILL.md frontmatter fields exposed in results and used by the metadata filters. */
+interface SkillMetadata {
+  name?: string;
+  description?: string;
+  "allowed-tools"?: string[];
+  "user-invocable"?: boolean;
+  "disable-model-invocation"?: boolean;
+  "argument-hint"?: string;
+  requires?: string[];
+  license?: string;
 }
 
-interface GitHubTreeItem {
+interface TreeItem {
   path: string;
   type: "blob" | "tree";
+  // Git object SHA (blob SHA for files)
   sha: string;
+  // Blob size in bytes, where the host reports it (not GitLab)
   size?: number;
-  url: string;
+}
+
+interface RepoTree {
+  tree: TreeItem[];
+  truncated: boolean;
+}
+
+/**
+ * Everything the script needs from a git host. `repo` is the repository path
+ * on the host (`owner/repo`, or `group/subgroup/project` on GitLab). Local
+ * directories and plain git remotes are located by `baseUrl` alone; their
+ * `repo` is only a label.
+ */
+interface GitProvider {
+  type: ProviderType;
+  baseUrl: string;
+  defaultBranch(repo: string): Promise<string>;
+  // Not found when the repo or ref is gone, rather than unreachable
+  latestCommit(repo: string, ref: string): Promise<FetchResult<string>>;
+  // Most recent commit on `ref` touching `path`
+  lastCommit(repo: string, ref: string, path: string): Promise<{ sha: string; date: string } | null>;
+  tree(repo: string, ref: string): Promise<RepoTree>;
+  readFile(repo: string, ref: string, path: string): Promise<string | null>;
+  downloadFile(repo: string, ref: string, path: string): Promise<Buffer | null>;
+  rawUrl(repo: string, ref: string, path: string): string;
+  webUrl(repo: string, ref?: string, path?: string): string;
+  cloneUrl(repo: string): string;
+  // Environment for git commands against cloneUrl(repo), carrying its credentials
+  gitEnv(repo: string): Record<string, string>;
+  // Splits the path of a web URL into repo, ref and path within the repo
+  parseWebPath(path: string): { repo: string; ref: string | null; path: string } | null;
+}
+
+/**
+ * A cached GET's data. `notFound` tells a host's 404 apart from a failed
+ * request; both leave `data` null.
+ */
+interface FetchResult<T> {
+  data: T | null;
+  notFound: boolean;
+}
+
+/** Where a skill's repository lives; omitted fields mean github.com. */
+interface HostRef {
+  provider?: ProviderType;
+  base_url?: string;
+}
+
+interface SearchPaging {
+  offset: number;
+  limit: number;
+  returned: number;
+  next_offset: number | null;
 }
 
 interface SearchOutput {
   keywords: string[];
   total: number;
+  paging: SearchPaging;
   results: SkillResult[];
+  cache?: CacheStatus[];
+  registry_errors?: RegistryError[];
+  rate_limits?: RateLimitState[];
+}
+
+interface SkillSpec {
+  repo: string;
+  path: string;
+  branch: string | null;
+  provider: GitProvider;
+}
+
+interface InstalledSkill extends HostRef {
+  name: string;
+  source: string;
+  path: string;
+  branch: string;
+  method: InstallMethod;
+  location: InstallLocation;
+  target: string;
+  files: string[];
+  commit: string;
+  hash: string;
+}
+
+type RiskLevel = "none" | "low" | "medium" | "high";
+
+interface AuditFinding {
+  file: string;
+  line: number | null;
+  rule: string;
+  severity: Exclude<RiskLevel, "none">;
+  message: string;
+  excerpt?: string;
+}
+
+/** Result of scanning a skill directory; `risk` is the worst finding's severity. */
+interface SkillAudit {
+  risk: RiskLevel;
+  files: number;
+  findings: AuditFinding[];
+}
+
+/** Written to `<skill>/.skill-finder.json` at install time. */
+interface SkillProvenance extends HostRef {
+  registry: string;
+  source: string;
+  path: string;
+  branch: string;
+  commit: string;
+  installed_at: string;
+  method: InstallMethod;
+  // Relative path → git blob SHA of the installed content
+  files: Record<string, string>;
+}
+
+interface InstalledSkillInfo {
+  name: string;
+  location: InstallLocation;
+  target: string;
+  description?: string;
+  provenance: SkillProvenance | null;
+  modified: boolean;
+}
+
+interface LockEntry extends HostRef {
+  registry: string;
+  source: string;
+  path: string;
+  branch: string;
+  commit: string;
+  // sha256 over the sorted (path, blob SHA) pairs of the installed files
+  hash: string;
+}
+
+/** `skills.lock`, written next to the `skills/` directory it describes. */
+interface SkillsLock {
+  version: 1;
+  skills: Record<string, LockEntry>;
+}
+
+type UpdateStatus = "up-to-date" | "outdated" | "orphaned" | "unknown" | "unmanaged";
+
+type OutputFormat = "json" | "table" | "markdown" | "ndjson" | "csv";
+
+interface OutputColumn {
+  key: string;
+  header: string;
+  // Table/markdown cells longer than this are truncated
+  maxWidth?: number;
+  // Restrict the column to these formats (default: all tabular formats)
+  only?: OutputFormat[];
+}
+
+interface TabularOutput {
+  columns: OutputColumn[];
+  rows: Record<string, unknown>[];
+  title?: string;
+  footer?: string;
 }
 
 interface CLIArgs {
@@ -93,24 +698,106 @@ interface CLIArgs {
   threshold: number;
   listRegistries: boolean;
   showPreferences: boolean;
+  showConfig: boolean;
+  validateConfig: boolean;
   addRegistry: string | null;
   removeRegistry: string | null;
   enableRegistry: string | null;
   disableRegistry: string | null;
   registryName: string | null;
+  offline: boolean;
+  refresh: boolean;
+  clearCache: boolean;
+  install: string | null;
+  installMethod: InstallMethod | null;
+  installLocation: InstallLocation | null;
+  branch: string | null;
+  force: boolean;
+  listInstalled: boolean;
+  uninstall: string | null;
+  checkUpdates: boolean;
+  registries: string[];
+  category: string | null;
+  limit: number;
+  offset: number;
+  exact: boolean;
+  regex: boolean;
+  format: OutputFormat;
+  explain: boolean;
+  deep: boolean;
+  why: string | null;
+  audit: string | null;
+  show: string | null;
+  maxLines: number | null;
+  // SKILL.md frontmatter filters
+  metadata: boolean;
+  tools: string[];
+  license: string | null;
+  noRequires: boolean;
+  userInvocable: boolean;
+  modelInvocable: boolean;
+  checkRegistries: boolean;
+  sync: boolean;
+  verify: boolean;
 }
 
 // --- Configuration ---
 
 const MAX_RESULTS = 30;
 const FETCH_TIMEOUT = 20_000;
-const DESC_WEIGHT = 0.75;
+const MAX_CONCURRENT_REQUESTS = 8;
+// Registries whose catalogs load at once
+const REGISTRY_CONCURRENCY = 4;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 500; // ms, doubled per attempt
+// Wait out a rate limit only if it resets within this many ms
+const MAX_RATE_LIMIT_WAIT = 30_000;
+const TOKEN_COMMAND_TIMEOUT = 10_000;
+const DEFAULT_RANKING: RankingWeights = {
+  name_boost: 1.0,
+  description_boost: 0.75,
+  category_boost: 0.5,
+  content_boost: 0.7,
+  k1: 1.2,
+  b: 0.75,
+  coverage_weight: 0.3,
+  typo_threshold: 0.6,
+  listing_boost: 0.1,
+};
+const DEFAULT_CACHE_TTL = 3600; // seconds
+const DEFAULT_BLOCK_AT: RiskLevel = "high";
 
 const SCRIPT_DIR = dirname(resolve(process.argv[1] || __filename));
 const BASE_DIR = resolve(SCRIPT_DIR, "..");
 const CONFIG_PATH = resolve(BASE_DIR, "config.yaml");
 const REGISTRIES_PATH = resolve(BASE_DIR, "registries.json");
 const LOCAL_REGISTRIES_PATH = resolve(BASE_DIR, "registries.local.json");
+const USER_CONFIG_PATH = resolve(
+  process.env.XDG_CONFIG_HOME || join(homedir(), ".config"),
+  "inm-skill-finder",
+  "config.yaml"
+);
+const LOCAL_CONFIG_PATH = resolve(BASE_DIR, "config.local.yaml");
+const CACHE_DIR = resolve(BASE_DIR, ".cache");
+const PROVENANCE_FILE = ".skill-finder.json";
+
+// Applied in order over DEFAULT_CONFIG; later layers win
+const CONFIG_LAYERS: { layer: ConfigLayer; path: string }[] = [
+  { layer: "defaults", path: REGISTRIES_PATH },
+  { layer: "user", path: USER_CONFIG_PATH },
+  { layer: "project", path: CONFIG_PATH },
+  { layer: "local", path: LOCAL_REGISTRIES_PATH },
+  { layer: "local", path: LOCAL_CONFIG_PATH },
+];
+const DEFAULT_CONFIG: YAMLConfig = {
+  preferences: { install_method: "ask", install_location: "ask" },
+  cache: { ttl: DEFAULT_CACHE_TTL },
+  ranking: DEFAULT_RANKING,
+  security: { block_at: DEFAULT_BLOCK_AT },
+};
+
+// Values accepted for `provider:`; local and git registries use `path:` and `git:`
+const PROVIDER_TYPES: ProviderType[] = ["github", "github-enterprise", "gitlab", "gitea"];
 
 function normalizeGitHubURL(url: string): string {
   const match = url.match(/github\.com[/:]([\w-]+)\/([\w.-]+)/);
@@ -123,530 +810,3640 @@ function normalizeGitHubURL(url: string): string {
   return url;
 }
 
+/**
+ * Resolve a config.yaml registry on another host. `base_url` defaults to the
+ * origin of `url`, and the repo path is whatever follows it.
+ */
+function normalizeHostedURL(r: YAMLRegistrySimple & { url: string }): { repo: string; base_url: string } | string {
+  const origin = r.url.match(/^https?:\/\/[^/]+/)?.[0];
+  const baseUrl = (r.base_url ?? origin ?? "").replace(/\/+$/, "");
+  if (!baseUrl) return `Registry '${r.url}' needs base_url or a full URL for provider '${r.provider}'`;
+
+  const path = r.url.startsWith(baseUrl) ? r.url.slice(baseUrl.length) : origin ? null : r.url;
+  if (path === null) return `Registry '${r.url}' is not on ${baseUrl}`;
+  const parts = path
+    .replace(/\/-\/.*$/, "")
+    .replace(/\.git$/, "")
+    .split("/")
+    .filter(Boolean);
+  // Only GitLab nests projects in (sub)groups; elsewhere drop /tree/... suffixes
+  const repo = (r.provider === "gitlab" ? parts : parts.slice(0, 2)).join("/");
+  if (parts.length < 2) return `Registry '${r.url}' does not name a repository`;
+  return { repo, base_url: baseUrl };
+}
+
 function registryIDFromRepo(repo: string): string {
   return repo.replace(/\//g, '-').toLowerCase();
 }
 
-// --- Registry loading ---
-
-function loadRegistries(): Registry[] {
-  let registries: Registry[] = [];
+const PARSER_FORMATS: ParserFormat[] = ["list", "table", "tree", "manifest"];
 
-  if (existsSync(CONFIG_PATH)) {
-    try {
-      const yamlContent = readFileSync(CONFIG_PATH, "utf-8");
-      const config: YAMLConfig = parseYAML(yamlContent);
-      
-      if (config.registries) {
-        registries = config.registries.map((r) => {
-          const repo = normalizeGitHubURL(r.url);
-          const id = registryIDFromRepo(repo);
-          return {
-            id,
-            repo,
-            name: r.name || repo,
-            description: r.description || "",
-            enabled: r.enabled !== false,
-          };
-        });
-      }
-      return registries;
-    } catch (e) {
-      console.error(
-        JSON.stringify({ warning: `Failed to parse config.yaml: ${(e as Error).message}` })
-      );
-    }
+/** The registry's `parser:` rules, dropping an unknown format with a warning. */
+function parserRules(r: YAMLRegistrySimple): ParserRules | undefined {
+  if (!r.parser) return undefined;
+  if (r.parser.format && !PARSER_FORMATS.includes(r.parser.format)) {
+    console.error(
+      JSON.stringify({
+        warning: `Unknown parser format '${r.parser.format}' for registry '${r.url ?? r.path ?? r.git}' (expected ${PARSER_FORMATS.join(", ")})`,
+      })
+    );
+    const { format: _, ...rest } = r.parser;
+    return rest;
   }
+  return r.parser;
+}
 
-  if (existsSync(REGISTRIES_PATH)) {
-    try {
-      const data: RegistryConfig = JSON.parse(
-        readFileSync(REGISTRIES_PATH, "utf-8")
-      );
-      registries = data.registries || [];
-    } catch (e) {
-      console.error(
-        JSON.stringify({ warning: `Failed to parse registries.json: ${(e as Error).message}` })
-      );
-    }
+/**
+ * Where a config.yaml registry lives: a repo on a git host (`url`), a
+ * directory relative to config.yaml (`path`), or a plain git remote (`git`).
+ */
+function registryLocation(r: YAMLRegistrySimple): { repo: string; host: HostRef } | string {
+  if (r.path) {
+    const dir = resolve(BASE_DIR, r.path);
+    return { repo: `local/${basename(dir)}`, host: { provider: "local", base_url: dir } };
   }
+  if (r.git) {
+    // Label with the last two path segments: git@host:team/skills.git → team/skills
+    const segments = r.git.replace(/\.git\/?$/, "").split(/[/:]/).filter(Boolean);
+    return { repo: segments.slice(-2).join("/"), host: { provider: "git", base_url: r.git } };
+  }
+  if (!r.url) return "Registry needs one of url, path or git";
 
-  if (existsSync(LOCAL_REGISTRIES_PATH)) {
-    try {
-      const local: RegistryConfig = JSON.parse(
-        readFileSync(LOCAL_REGISTRIES_PATH, "utf-8")
-      );
-      const localRegs = local.registries || [];
-      const merged = new Map<string, Registry>();
-      for (const r of registries) merged.set(r.id, r);
-      for (const r of localRegs) merged.set(r.id, r);
-      registries = Array.from(merged.values());
-    } catch (e) {
-      console.error(
-        JSON.stringify({ warning: `Failed to parse registries.local.json: ${(e as Error).message}` })
-      );
-    }
+  const provider = r.provider ?? "github";
+  if (!PROVIDER_TYPES.includes(provider)) {
+    return `Unknown provider '${provider}' for registry '${r.url}'`;
+  }
+  if (provider === "github" && !r.base_url) {
+    return { repo: normalizeGitHubURL(r.url), host: {} };
   }
 
-  return registries;
+  const hosted = normalizeHostedURL({ ...r, url: r.url, provider });
+  if (typeof hosted === "string") return hosted;
+  return {
+    repo: hosted.repo,
+    host: {
+      provider: provider === "github" ? "github-enterprise" : provider,
+      base_url: hosted.base_url,
+    },
+  };
 }
 
-function loadPreferences(): YAMLConfig['preferences'] | null {
-  if (!existsSync(CONFIG_PATH)) return null;
-  
-  try {
-    const yamlContent = readFileSync(CONFIG_PATH, "utf-8");
-    const config: YAMLConfig = parseYAML(yamlContent);
-    return config.preferences || null;
-  } catch {
-    return null;
-  }
+// --- Config validation ---
+
+const COLUMN_SCHEMA: ConfigSchema = { type: "string", or: { type: "number", min: 0 } };
+const STRING_LIST: ConfigSchema = { type: "list", items: { type: "string" } };
+
+const REGISTRY_SCHEMA: ConfigSchema = {
+  type: "object",
+  fields: {
+    url: { type: "string" },
+    path: { type: "string" },
+    git: { type: "string" },
+    enabled: { type: "boolean" },
+    name: { type: "string" },
+    description: { type: "string" },
+    provider: { type: "string", values: PROVIDER_TYPES },
+    base_url: { type: "string" },
+    parser: {
+      type: "object",
+      fields: {
+        format: { type: "string", values: PARSER_FORMATS },
+        columns: {
+          type: "object",
+          fields: { name: COLUMN_SCHEMA, description: COLUMN_SCHEMA, url: COLUMN_SCHEMA, category: COLUMN_SCHEMA },
+        },
+        category_levels: { type: "list", items: { type: "number", values: [1, 2, 3, 4, 5, 6] } },
+        skip_headings: STRING_LIST,
+        include: STRING_LIST,
+        exclude: STRING_LIST,
+        depth: { type: "number", min: 0 },
+      },
+    },
+    auth: {
+      type: "object",
+      fields: {
+        token_env: { type: "string" },
+        token_command: { type: "string" },
+        username: { type: "string" },
+        scope: { type: "string", values: ["repo", "owner"] },
+      },
+    },
+  },
+};
+
+// Keys that would hold a literal secret; auth must point at one instead
+const SECRET_KEYS = ["token", "password"];
+
+const CONFIG_SCHEMA: ConfigSchema = {
+  type: "object",
+  fields: {
+    preferences: {
+      type: "object",
+      fields: {
+        install_method: { type: "string", values: ["npx", "direct", "git", "ask"] },
+        install_location: { type: "string", values: ["project", "global", "ask"] },
+      },
+    },
+    cache: { type: "object", fields: { ttl: { type: "number", min: 0 } } },
+    ranking: {
+      type: "object",
+      fields: Object.fromEntries(
+        Object.keys(DEFAULT_RANKING).map((key) => [key, { type: "number", min: 0 }])
+      ),
+    },
+    security: {
+      type: "object",
+      fields: { block_at: { type: "string", values: ["low", "medium", "high", "off"] } },
+    },
+    registries: { type: "list", items: REGISTRY_SCHEMA },
+  },
+};
+
+interface ValidationContext {
+  file: string;
+  lineCounter: LineCounter;
+  issues: ConfigIssue[];
 }
 
-function saveLocalRegistries(registries: Registry[]): void {
-  const config: RegistryConfig = { registries };
-  writeFileSync(LOCAL_REGISTRIES_PATH, JSON.stringify(config, null, 2) + "\n");
+function lineOf(ctx: ValidationContext, node: unknown): number | null {
+  const range = (node as { range?: [number, number, number] } | null)?.range;
+  return range ? ctx.lineCounter.linePos(range[0]).line : null;
 }
 
-function loadLocalRegistries(): Registry[] {
-  if (!existsSync(LOCAL_REGISTRIES_PATH)) return [];
-  try {
-    const data: RegistryConfig = JSON.parse(
-      readFileSync(LOCAL_REGISTRIES_PATH, "utf-8")
-    );
-    return data.registries || [];
-  } catch {
-    return [];
-  }
+function addIssue(
+  ctx: ValidationContext,
+  node: unknown,
+  field: string,
+  message: string,
+  severity: ConfigIssue["severity"] = "error"
+): void {
+  ctx.issues.push({ severity, file: ctx.file, line: lineOf(ctx, node), field, message });
 }
 
-// --- HTTP helpers ---
+function describeSchema(schema: ConfigSchema): string {
+  const type = schema.type === "object" ? "a mapping" : schema.type === "list" ? "a list" : `a ${schema.type}`;
+  return schema.or ? `${type} or ${describeSchema(schema.or)}` : type;
+}
 
-const ghToken = process.env.GITHUB_TOKEN || process.env.GH_TOKEN || "";
+/** Whether a scalar `value` satisfies `schema`, or why not. */
+function checkScalar(value: unknown, schema: ConfigSchema): string | null {
+  if (typeof value !== schema.type) {
+    return schema.or ? checkScalar(value, schema.or) : `expected ${describeSchema(schema)}, got ${JSON.stringify(value)}`;
+  }
+  if (schema.values && !schema.values.includes(value as string | number)) {
+    return `expected one of ${schema.values.join(", ")}, got ${JSON.stringify(value)}`;
+  }
+  if (schema.min !== undefined && (value as number) < schema.min) {
+    return `must be at least ${schema.min}`;
+  }
+  return null;
+}
 
-async function githubFetch<T>(url: string): Promise<T | null> {
-  const headers: Record<string, string> = {
-    "User-Agent": "skill-finder/1.0",
-    Accept: "application/vnd.github+json",
-  };
-  if (ghToken) headers.Authorization = `Bearer ${ghToken}`;
+function validateNode(ctx: ValidationContext, node: unknown, schema: ConfigSchema, field: string): void {
+  // Empty values (`cache:` with every key commented out) count as unset
+  if (node === null || (isScalar(node) && node.value === null)) return;
 
-  try {
-    const res = await fetch(url, {
-      headers,
-      signal: AbortSignal.timeout(FETCH_TIMEOUT),
-    });
-    if (!res.ok) {
-      if (res.status === 403) {
-        console.error(
-          JSON.stringify({
-            warning:
-              "GitHub API rate limit reached. Set GITHUB_TOKEN or GH_TOKEN for higher limits.",
-          })
+  if (schema.type === "object") {
+    if (!isMap(node)) {
+      addIssue(ctx, node, field, `expected ${describeSchema(schema)}`);
+      return;
+    }
+    const fields = schema.fields ?? {};
+    for (const pair of node.items) {
+      const key = String(isScalar(pair.key) ? pair.key.value : pair.key);
+      const path = field ? `${field}.${key}` : key;
+      const child = fields[key];
+      if (!child && SECRET_KEYS.includes(key)) {
+        addIssue(ctx, pair.key, path, "secrets can't be stored in config; use auth.token_env or auth.token_command");
+        continue;
+      }
+      if (!child) {
+        const known = Object.keys(fields);
+        const suggestion = known.find((k) => levenshteinSimilarity(k, key) >= 0.6);
+        addIssue(
+          ctx,
+          pair.key,
+          path,
+          `unknown key '${key}'${suggestion ? ` (did you mean '${suggestion}'?)` : ""}`,
+          "warning"
         );
+        continue;
       }
-      return null;
+      validateNode(ctx, pair.value, child, path);
     }
-    return (await res.json()) as T;
-  } catch {
-    return null;
+    return;
   }
-}
 
-async function rawFetch(url: string): Promise<string | null> {
-  try {
-    const res = await fetch(url, {
-      headers: { "User-Agent": "skill-finder/1.0" },
-      signal: AbortSignal.timeout(FETCH_TIMEOUT),
-    });
-    if (!res.ok) return null;
-    return await res.text();
-  } catch {
-    return null;
+  if (schema.type === "list") {
+    if (!isSeq(node)) {
+      addIssue(ctx, node, field, `expected ${describeSchema(schema)}`);
+      return;
+    }
+    node.items.forEach((item, index) => validateNode(ctx, item, schema.items!, `${field}[${index}]`));
+    return;
   }
-}
 
-// --- README parsing ---
+  const problem = isScalar(node) ? checkScalar(node.value, schema) : `expected ${describeSchema(schema)}`;
+  if (problem) addIssue(ctx, node, field, problem);
+}
 
 /**
- * Parse skill entries from a README. Supports 3 formats:
- * 1. List: `- [name](url) - description`
- * 2. Table: `| [name](url) | description |`
- * 3. Mixed list: `- **name** - description` or `- [name](url): description`
+ * Checks that need a whole registry entry: exactly one location, a URL that
+ * resolves to a repository, a usable `auth`, and no second entry for the same
+ * repo.
  */
-function parseReadme(content: string, repoSlug: string): SkillEntry[] {
-  const entries: SkillEntry[] = [];
-  const lines = content.split("\n");
-  let currentCategory = "";
-
-  for (const line of lines) {
-    // Track headings as category
-    const headingMatch = line.match(/^#{1,4}\s+(.+)/);
-    if (headingMatch) {
-      const heading = headingMatch[1].trim();
-      // Skip generic headings
-      if (
-        !/^(table of contents|contributing|license|acknowledgment|getting started|installation|usage|about)/i.test(
-          heading
-        )
-      ) {
-        currentCategory = heading.replace(/[*_`]/g, "");
-      }
-      continue;
+function validateRegistries(ctx: ValidationContext, seq: YAMLSeq): void {
+  const seen = new Map<string, number>();
+  seq.items.forEach((item, index) => {
+    if (!isMap(item)) return;
+    const field = `registries[${index}]`;
+    const r: YAMLRegistrySimple = item.toJSON();
+    const locations = (["url", "path", "git"] as const).filter((key) => r[key]);
+    if (locations.length !== 1) {
+      addIssue(ctx, item, field, locations.length ? `set only one of ${locations.join(", ")}` : "needs one of url, path or git");
+      return;
     }
 
-    // Format 1: List with link — `- [name](url) - description` or `* [name](url) — description`
-    const listLinkMatch = line.match(
-      /^[\s]*[-*]\s+\[([^\]]+)\]\(([^)]+)\)\s*[-–—:]\s*(.+)/
-    );
-    if (listLinkMatch) {
-      const href = listLinkMatch[2].trim();
-      if (href.startsWith("#")) continue; // skip anchor-only links (TOC entries)
-      entries.push({
-        name: listLinkMatch[1].trim(),
-        url: resolveUrl(href, repoSlug),
-        description: listLinkMatch[3].trim(),
-        category: currentCategory,
-        source: repoSlug,
+    const location = registryLocation(r.path ? { ...r, path: resolve(dirname(ctx.file), r.path) } : r);
+    if (typeof location === "string") {
+      addIssue(ctx, item.get("url", true) ?? item, field, location, "warning");
+      return;
+    }
+    if (r.url && !location.host.base_url && !/^[\w.-]+\/[\w.-]+$/.test(location.repo)) {
+      addIssue(
+        ctx,
+        item.get("url", true),
+        `${field}.url`,
+        `'${r.url}' is not a github.com repository; set provider (and base_url) for other hosts`,
+        "warning"
+      );
+      return;
+    }
+    if (r.git && !/^([a-z][a-z0-9+.-]*:\/\/|[^@/\s]+@[^:/\s]+:|\/|\.{1,2}\/)/i.test(r.git)) {
+      addIssue(ctx, item.get("git", true), `${field}.git`, `'${r.git}' is not a git URL, scp-style remote or path`, "warning");
+    }
+
+    const auth = item.get("auth", true);
+    if (isMap(auth)) {
+      const sources = (["token_env", "token_command"] as const).filter((key) => r.auth?.[key]);
+      if (sources.length !== 1) {
+        addIssue(
+          ctx,
+          auth,
+          `${field}.auth`,
+          sources.length ? "set only one of token_env, token_command" : "needs token_env or token_command"
+        );
+      }
+    }
+
+    const key = registryKey(location.repo, location.host);
+    const first = seen.get(key);
+    if (first !== undefined) {
+      addIssue(
+        ctx,
+        item,
+        field,
+        `duplicates registries[${first}] (${location.repo}); the later entry wins`,
+        "warning"
+      );
+    } else {
+      seen.set(key, index);
+    }
+  });
+}
+
+function validateConfigDocument(doc: Document, file: string, lineCounter: LineCounter): ConfigIssue[] {
+  const ctx: ValidationContext = { file, lineCounter, issues: [] };
+  validateNode(ctx, doc.contents, CONFIG_SCHEMA, "");
+  const registries = doc.get("registries");
+  if (isSeq(registries)) validateRegistries(ctx, registries);
+  return ctx.issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+}
+
+function formatIssue(issue: ConfigIssue): string {
+  const where = issue.line === null ? issue.file : `${issue.file}:${issue.line}`;
+  return issue.field ? `${where}: ${issue.field}: ${issue.message}` : `${where}: ${issue.message}`;
+}
+
+// --- Config layers ---
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** A legacy JSON registry as a config.yaml entry, keeping its `id`. */
+function registryEntry(r: Registry): YAMLRegistrySimple {
+  const location: YAMLRegistrySimple =
+    r.provider === "local"
+      ? { path: r.base_url }
+      : r.provider === "git"
+        ? { git: r.base_url }
+        : { url: r.repo, provider: r.provider, base_url: r.base_url };
+  return {
+    id: r.id,
+    ...location,
+    name: r.name,
+    description: r.description,
+    enabled: r.enabled,
+    parser: r.parser,
+    auth: r.auth,
+  };
+}
+
+function registryKey(repo: string, host: HostRef): string {
+  return `${host.base_url ?? ""}|${repo.toLowerCase()}`;
+}
+
+/** One config file and the problems found in it; `config` is null if missing or unparseable. */
+function readLayerFile(path: string): { config: YAMLConfig | null; issues: ConfigIssue[] } {
+  if (!existsSync(path)) return { config: null, issues: [] };
+  const content = readFileSync(path, "utf-8");
+
+  if (path.endsWith(".json")) {
+    try {
+      const data: RegistryConfig = JSON.parse(content);
+      return { config: { registries: (data.registries || []).map(registryEntry) }, issues: [] };
+    } catch (e) {
+      const issue: ConfigIssue = { severity: "error", file: path, line: null, field: "", message: (e as Error).message };
+      return { config: null, issues: [issue] };
+    }
+  }
+
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  if (doc.errors.length) {
+    const issues = doc.errors.map((e): ConfigIssue => ({
+      severity: "error",
+      file: path,
+      line: e.linePos?.[0].line ?? null,
+      field: "",
+      message: e.message.split("\n")[0].replace(/ at line \d+, column \d+:?$/, ""),
+    }));
+    return { config: null, issues };
+  }
+  return { config: doc.toJS() ?? {}, issues: validateConfigDocument(doc, path, lineCounter) };
+}
+
+/** Copy `source` into `target`, recording which layer set each leaf value. */
+function mergeValues(
+  merged: MergedConfig,
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+  layer: ConfigLayer,
+  prefix: string
+): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined || value === null) continue;
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      if (!isPlainObject(target[key])) target[key] = {};
+      mergeValues(merged, target[key] as Record<string, unknown>, value, layer, path);
+    } else {
+      target[key] = value;
+      merged.values[path] = { value, source: layer };
+    }
+  }
+}
+
+/**
+ * Apply one layer. Registries are matched by repo (and host), so a later
+ * layer only needs `url` plus the fields it changes.
+ */
+function mergeLayer(
+  merged: MergedConfig,
+  entries: Map<string, YAMLRegistrySimple>,
+  layer: ConfigLayer,
+  path: string
+): void {
+  const { config, issues } = readLayerFile(path);
+  merged.files.push({ layer, path, exists: existsSync(path) });
+  merged.issues.push(...issues);
+  if (!isPlainObject(config)) return;
+
+  const { registries, ...settings } = config;
+  mergeValues(merged, merged.config as Record<string, unknown>, settings, layer, "");
+
+  for (const [index, raw] of (Array.isArray(registries) ? registries : []).entries()) {
+    if (typeof raw !== "object" || raw === null) continue;
+    // `path:` is relative to the file that declares it
+    const r: YAMLRegistrySimple = raw.path ? { ...raw, path: resolve(dirname(path), raw.path) } : raw;
+    const location = registryLocation(r);
+    // Invalid entries are kept as-is so loadRegistries() can report them
+    const key = typeof location === "string" ? `${path}:${index}` : registryKey(location.repo, location.host);
+    const label = typeof location === "string" ? key : location.repo;
+
+    // A legacy `id` only holds until another layer redeclares the registry
+    const entry: Record<string, unknown> = { ...entries.get(key), id: r.id };
+    mergeValues(merged, entry, { ...r, id: undefined }, layer, `registries[${label}]`);
+    entries.set(key, entry as YAMLRegistrySimple);
+    merged.registryFiles[key] = [...(merged.registryFiles[key] ?? []), path];
+  }
+}
+
+/**
+ * The effective configuration: built-in defaults (including registries.json),
+ * then the user config, project config.yaml and local overrides, each
+ * overriding the one before.
+ */
+function mergeConfigLayers(): MergedConfig {
+  const merged: MergedConfig = { config: {}, values: {}, files: [], registryFiles: {}, issues: [] };
+  mergeValues(merged, merged.config as Record<string, unknown>, { ...DEFAULT_CONFIG }, "defaults", "");
+  const entries = new Map<string, YAMLRegistrySimple>();
+  for (const { layer, path } of CONFIG_LAYERS) mergeLayer(merged, entries, layer, path);
+  merged.config.registries = Array.from(entries.values());
+  return merged;
+}
+
+let mergedConfig: MergedConfig | null = null;
+let configWarned = false;
+
+/** mergeConfigLayers(), exiting on invalid config and warning once about the rest. */
+function loadConfig(): MergedConfig {
+  if (mergedConfig) return mergedConfig;
+  const merged = mergeConfigLayers();
+
+  const errors = merged.issues.filter((issue) => issue.severity === "error");
+  if (errors.length) {
+    console.log(
+      JSON.stringify({ error: `Invalid configuration: ${formatIssue(errors[0])}`, issues: errors })
+    );
+    process.exit(1);
+  }
+  if (!configWarned) {
+    for (const issue of merged.issues) console.error(JSON.stringify({ warning: formatIssue(issue) }));
+    configWarned = true;
+  }
+
+  mergedConfig = merged;
+  return merged;
+}
+
+function readYAMLConfig(): YAMLConfig {
+  return loadConfig().config;
+}
+
+// --- Registry loading ---
+
+function loadRegistries(): Registry[] {
+  return (readYAMLConfig().registries ?? []).flatMap((r): Registry[] => {
+    // Reported by validateRegistries()
+    const location = registryLocation(r);
+    if (typeof location === "string") return [];
+
+    const { repo, host } = location;
+    const id = r.id || registryIDFromRepo(repo);
+    const parser = parserRules(r);
+    return [{
+      id,
+      repo,
+      name: r.name || repo,
+      description: r.description || "",
+      enabled: r.enabled !== false,
+      ...host,
+      ...(parser ? { parser } : {}),
+      ...(r.auth ? { auth: r.auth } : {}),
+    }];
+  });
+}
+
+function loadPreferences(): YAMLConfig['preferences'] | null {
+  return readYAMLConfig().preferences ?? null;
+}
+
+function loadCacheTTL(): number {
+  const ttl = readYAMLConfig().cache?.ttl;
+  return typeof ttl === "number" && ttl >= 0 ? ttl : DEFAULT_CACHE_TTL;
+}
+
+/** Lowest audit risk that blocks an install, or "off". */
+function loadBlockAt(): RiskLevel | "off" {
+  const blockAt = readYAMLConfig().security?.block_at;
+  return blockAt === "off" || (blockAt && RISK_LEVELS.includes(blockAt)) ? blockAt : DEFAULT_BLOCK_AT;
+}
+
+function loadRankingWeights(): RankingWeights {
+  const weights = { ...DEFAULT_RANKING };
+  const overrides = readYAMLConfig().ranking ?? {};
+  for (const key of Object.keys(DEFAULT_RANKING) as (keyof RankingWeights)[]) {
+    const value = overrides[key];
+    if (typeof value === "number" && value >= 0) weights[key] = value;
+  }
+  return weights;
+}
+
+// --- Config editing ---
+
+/** config.yaml as a document that keeps its comments and layout when written back. */
+function readProjectConfig(): Document {
+  if (!existsSync(CONFIG_PATH)) return new Document({ registries: [] });
+  const content = readFileSync(CONFIG_PATH, "utf-8");
+  const doc = parseDocument(content);
+  if (doc.errors.length) {
+    console.log(
+      JSON.stringify({ error: `Failed to parse config.yaml: ${doc.errors[0].message}` })
+    );
+    process.exit(1);
+  }
+  // yaml drops the blank line between the last registry and the comments after it
+  const seq = doc.get("registries");
+  if (isSeq(seq) && seq.comment) {
+    const lines = content.split("\n");
+    const first = lines.findIndex((line) => line.trim() === `#${seq.comment?.split("\n")[0]}`);
+    if (first > 0 && !lines[first - 1].trim()) seq.comment = `\n${seq.comment}`;
+  }
+  return doc;
+}
+
+function writeProjectConfig(doc: Document): void {
+  writeFileSync(CONFIG_PATH, doc.toString());
+  mergedConfig = null;
+}
+
+/** The config.yaml `registries:` list, created if missing. */
+function projectRegistries(doc: Document): YAMLSeq {
+  const seq = doc.get("registries");
+  if (isSeq(seq)) return seq;
+  const created = new YAMLSeq();
+  doc.set("registries", created);
+  return created;
+}
+
+/** Add an entry to the config.yaml `registries:` list, spaced like the others. */
+function appendRegistry(doc: Document, entry: YAMLRegistrySimple): void {
+  const seq = projectRegistries(doc);
+  const node = doc.createNode(entry);
+  node.spaceBefore = seq.items.length > 0;
+  seq.add(node);
+}
+
+/** Index of `registry` in the config.yaml `registries:` list, or -1. */
+function projectRegistryIndex(seq: YAMLSeq, registry: Registry): number {
+  const key = registryKey(registry.repo, registry);
+  return seq.items.findIndex((item) => {
+    if (!isMap(item)) return false;
+    const r: YAMLRegistrySimple = item.toJSON();
+    const location = registryLocation(r);
+    return typeof location !== "string" && registryKey(location.repo, location.host) === key;
+  });
+}
+
+function findConfiguredRegistry(idOrRepo: string): Registry | undefined {
+  const wanted = idOrRepo.toLowerCase();
+  return loadRegistries().find(
+    (r) => r.id.toLowerCase() === wanted || r.repo.toLowerCase() === wanted
+  );
+}
+
+/** The config files that declare `registry`, lowest layer first. */
+function registryFiles(registry: Registry): string[] {
+  return loadConfig().registryFiles[registryKey(registry.repo, registry)] ?? [];
+}
+
+// --- Disk cache ---
+
+let cacheSettings: CacheSettings = {
+  ttl: DEFAULT_CACHE_TTL,
+  offline: false,
+  refresh: false,
+};
+
+function cacheFile(key: string): string {
+  const hash = createHash("sha1").update(key).digest("hex");
+  return resolve(CACHE_DIR, `${hash}.json`);
+}
+
+function readCache<T>(key: string): CacheEntry<T> | null {
+  const file = cacheFile(key);
+  if (!existsSync(file)) return null;
+  try {
+    const entry: CacheEntry<T> = JSON.parse(readFileSync(file, "utf-8"));
+    return entry.key === key ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCache<T>(key: string, data: T, etag?: string): CacheEntry<T> {
+  const entry: CacheEntry<T> = { key, fetched_at: Date.now(), etag, data };
+  try {
+    mkdirSync(CACHE_DIR, { recursive: true });
+    writeFileSync(cacheFile(key), JSON.stringify(entry));
+  } catch (e) {
+    console.error(
+      JSON.stringify({ warning: `Failed to write cache: ${(e as Error).message}` })
+    );
+  }
+  return entry;
+}
+
+function isFresh(entry: CacheEntry<unknown>): boolean {
+  if (cacheSettings.refresh) return false;
+  return Date.now() - entry.fetched_at < cacheSettings.ttl * 1000;
+}
+
+function clearCache(): number {
+  if (!existsSync(CACHE_DIR)) return 0;
+  const count = readdirSync(CACHE_DIR).filter((f) => f.endsWith(".json")).length;
+  rmSync(CACHE_DIR, { recursive: true, force: true });
+  return count;
+}
+
+// --- Credentials ---
+
+const TOKEN_ENV_VARS = ["GITHUB_TOKEN", "GH_TOKEN", "GH_ENTERPRISE_TOKEN", "GITLAB_TOKEN", "GITEA_TOKEN"];
+// Shorter values would mask ordinary words in the output
+const MIN_SECRET_LENGTH = 8;
+
+// Every token this run may send; redact() masks them in all output
+const secrets = new Set<string>();
+// Tokens by source (`env:NAME` or `command:...`), so each command runs once
+const resolvedTokens = new Map<string, string | null>();
+const credentialsCache = new Map<string, Credentials | null>();
+
+function addSecret(value: string): void {
+  if (value.length >= MIN_SECRET_LENGTH) secrets.add(value);
+}
+
+for (const name of TOKEN_ENV_VARS) addSecret(process.env[name] ?? "");
+
+/** `text` with known tokens and URL userinfo (`https://user:pass@`) masked. */
+function redact(text: string): string {
+  let redacted = text.replace(/(https?:\/\/)[^/\s@"]+@/g, "$1***@");
+  for (const secret of secrets) redacted = redacted.split(secret).join("***");
+  return redacted;
+}
+
+/** Send all console output through redact(), so no warning or error can leak a token. */
+function installRedaction(): void {
+  for (const method of ["log", "error"] as const) {
+    const write = console[method].bind(console);
+    console[method] = (...args: unknown[]) =>
+      write(...args.map((arg) => (typeof arg === "string" ? redact(arg) : arg)));
+  }
+}
+
+/** The token `auth` points at, or null (with a warning) if it can't be read. */
+function resolveToken(auth: RegistryAuth, registry: string): string | null {
+  const source = auth.token_env ? `env:${auth.token_env}` : `command:${auth.token_command}`;
+  if (resolvedTokens.has(source)) return resolvedTokens.get(source)!;
+
+  let token: string | null = null;
+  let problem = "";
+  if (auth.token_env) {
+    token = process.env[auth.token_env]?.trim() || null;
+    if (!token) problem = `environment variable ${auth.token_env} is not set`;
+  } else if (auth.token_command) {
+    const result = spawnSync(auth.token_command, {
+      shell: true,
+      encoding: "utf-8",
+      timeout: TOKEN_COMMAND_TIMEOUT,
+    });
+    token = result.status === 0 ? result.stdout.trim() || null : null;
+    if (!token) {
+      const detail = (result.stderr || result.error?.message || "").trim().split("\n")[0];
+      problem = `token_command failed${detail ? `: ${detail}` : result.status === 0 ? ": no output" : ""}`;
+    }
+  }
+
+  if (token) addSecret(token);
+  else console.error(JSON.stringify({ warning: `Registry '${registry}': ${problem}; continuing without its credentials` }));
+  resolvedTokens.set(source, token);
+  return token;
+}
+
+/**
+ * The registry whose `auth` applies to `repo` on that host: the registry for
+ * `repo` itself, or one under the same owner that opted in with
+ * `scope: owner`. A git remote is its own host, so any registry for it applies.
+ */
+function credentialRegistry(repo: string, host: HostRef, registries: Registry[]): Registry | undefined {
+  const key = registryKey(repo, host);
+  const owner = repo.split("/")[0].toLowerCase();
+  const candidates = registries.filter((r) => r.auth && (r.base_url ?? "") === (host.base_url ?? ""));
+  if (host.provider === "git") return candidates[0];
+  return (
+    candidates.find((r) => registryKey(r.repo, r) === key) ??
+    candidates.find((r) => r.auth!.scope === "owner" && r.repo.split("/")[0].toLowerCase() === owner)
+  );
+}
+
+/** Credentials from the `auth` of credentialRegistry(), memoized per repo. */
+function registryCredentials(repo: string, host: HostRef): Credentials | null {
+  const key = registryKey(repo, host);
+  if (credentialsCache.has(key)) return credentialsCache.get(key)!;
+
+  const registry = credentialRegistry(repo, host, loadRegistries());
+  const token = registry?.auth ? resolveToken(registry.auth, registry.repo) : null;
+  const credentials = token ? { token, username: registry!.auth!.username } : null;
+  credentialsCache.set(key, credentials);
+  return credentials;
+}
+
+/** registryCredentials(), falling back to the host's token variable. */
+function repoCredentials(repo: string, host: HostRef, envToken: string): Credentials | null {
+  return registryCredentials(repo, host) ?? (envToken ? { token: envToken } : null);
+}
+
+/**
+ * Environment that makes git send `credentials` to an HTTPS `remote`. Passed
+ * as GIT_CONFIG_* so the token never lands in .git/config or the command line.
+ */
+function gitAuthEnv(remote: string, credentials: Credentials | null, username: string): Record<string, string> {
+  if (!credentials || !/^https?:\/\//i.test(remote)) return {};
+  const basic = Buffer.from(`${credentials.username ?? username}:${credentials.token}`).toString("base64");
+  addSecret(basic);
+  return {
+    GIT_CONFIG_COUNT: "1",
+    GIT_CONFIG_KEY_0: "http.extraHeader",
+    GIT_CONFIG_VALUE_0: `Authorization: Basic ${basic}`,
+  };
+}
+
+// --- HTTP client ---
+
+const ghToken = process.env.GITHUB_TOKEN || process.env.GH_TOKEN || "";
+
+const rateLimits = new Map<string, RateLimitState>();
+// Failed requests by the registry they were made for
+const fetchFailures = new Map<string, FetchFailure[]>();
+const fetchScope = new AsyncLocalStorage<string>();
+const rateLimitWarned = new Set<string>();
+// Hosts that exhausted their retries; further requests fail fast until one succeeds
+const failingHosts = new Set<string>();
+
+let activeRequests = 0;
+const requestQueue: (() => void)[] = [];
+
+async function acquireRequestSlot(): Promise<void> {
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests++;
+    return;
+  }
+  await new Promise<void>((resolve) => requestQueue.push(resolve));
+}
+
+function releaseRequestSlot(): void {
+  // Hand the slot straight to the next waiter
+  const next = requestQueue.shift();
+  if (next) next();
+  else activeRequests--;
+}
+
+/** Run `fn` for `registry`, so its failed requests are attributed to it. */
+function withFetchScope<T>(registry: string, fn: () => Promise<T>): Promise<T> {
+  return fetchScope.run(registry, fn);
+}
+
+function httpError(url: string, res: Response): string {
+  const limit = rateLimits.get(new URL(url).host);
+  if (limit?.limited && (res.status === 403 || res.status === 429)) {
+    return `Rate limited${limit.reset ? ` until ${limit.reset}` : ""}`;
+  }
+  return `HTTP ${res.status} ${res.statusText}`.trim();
+}
+
+function recordFailure(url: string, status: number | null, error: string): void {
+  const registry = fetchScope.getStore();
+  if (!registry) return;
+  const failures = fetchFailures.get(registry) ?? [];
+  failures.push({ url, status, error });
+  fetchFailures.set(registry, failures);
+}
+
+/** `fn` over `items` with at most `limit` calls running at once, keeping order. */
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Track rate-limit headers per host: GitHub and Gitea send `X-RateLimit-*`,
+ * GitLab `RateLimit-*`. `limited` is set once the host refuses a request and
+ * stays set until `reset`, whatever other responses from the host say
+ * (GitHub Enterprise serves raw files and its API from one host).
+ */
+function recordRateLimit(url: string, res: Response): RateLimitState | null {
+  const host = new URL(url).host;
+  const header = (name: string) =>
+    res.headers.get(`x-ratelimit-${name}`) ?? res.headers.get(`ratelimit-${name}`);
+  const remaining = header("remaining");
+  const refused = res.status === 429 || (res.status === 403 && remaining === "0");
+  const previous = rateLimits.get(host);
+  if (remaining === null && !refused && !previous?.limited) return previous ?? null;
+
+  // Responses to requests sent before the refusal don't lift the limit
+  const stillLimited = !refused && previous?.limited === true && rateLimitWait(host) !== null;
+  const resetHeader = Number(header("reset"));
+  const wait = refused ? retryAfter(res) : null;
+  const reset =
+    stillLimited || !(resetHeader || wait !== null)
+      ? previous?.reset ?? null
+      : resetHeader
+        ? new Date(resetHeader * 1000).toISOString()
+        : new Date(Date.now() + wait!).toISOString();
+  const state: RateLimitState = {
+    host,
+    limit: header("limit") === null ? previous?.limit ?? null : Number(header("limit")),
+    remaining: remaining === null ? previous?.remaining ?? null : Number(remaining),
+    reset,
+    limited: refused || stillLimited,
+  };
+  rateLimits.set(host, state);
+  return state;
+}
+
+/** Milliseconds until a rate-limited `host` resets, or null if it isn't limited. */
+function rateLimitWait(host: string): number | null {
+  const state = rateLimits.get(host);
+  if (!state?.limited || !state.reset) return null;
+  const wait = Date.parse(state.reset) - Date.now();
+  return wait > 0 ? wait : null;
+}
+
+function warnRateLimited(state: RateLimitState): void {
+  if (rateLimitWarned.has(state.host)) return;
+  rateLimitWarned.add(state.host);
+  // Only GitHub's anonymous limit is low enough to hit in normal use
+  const hint = ghToken || !state.host.endsWith("github.com") ? "" : " Set GITHUB_TOKEN or GH_TOKEN for higher limits.";
+  console.error(
+    JSON.stringify({
+      warning: `Rate limit reached for ${state.host}${state.reset ? ` until ${state.reset}` : ""}.${hint}`,
+    })
+  );
+}
+
+/** `Retry-After` in milliseconds: either seconds or an HTTP date. */
+function retryAfter(res: Response): number | null {
+  const value = res.headers.get("retry-after");
+  if (!value) return null;
+  const ms = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value) - Date.now();
+  return Number.isNaN(ms) ? null : Math.max(0, ms);
+}
+
+/**
+ * How long to wait before retrying, or null to give up. Timeouts, network
+ * errors and 5xx responses back off exponentially; rate limits are waited
+ * out only when they reset within MAX_RATE_LIMIT_WAIT.
+ */
+function retryDelay(res: Response | null, limit: RateLimitState | null, attempt: number): number | null {
+  if (attempt >= MAX_RETRIES) return null;
+  const backoff = RETRY_BASE_DELAY * 2 ** attempt;
+  if (!res) return backoff;
+  if (res.status === 429 || (res.status === 403 && limit?.remaining === 0)) {
+    const wait = retryAfter(res) ?? (limit?.reset ? Date.parse(limit.reset) - Date.now() : null);
+    return wait !== null && wait <= MAX_RATE_LIMIT_WAIT ? Math.max(wait, 0) : null;
+  }
+  return res.status >= 500 ? retryAfter(res) ?? backoff : null;
+}
+
+/**
+ * GET through the shared client: at most MAX_CONCURRENT_REQUESTS in flight,
+ * with retries per retryDelay(). Returns the last response, or throws the
+ * last network error. Requests to a rate-limited host wait for its reset if
+ * that is within MAX_RATE_LIMIT_WAIT, and otherwise fail with a 429 without
+ * being sent.
+ */
+async function httpFetch(url: string, headers: Record<string, string>): Promise<Response> {
+  const host = new URL(url).host;
+  for (let attempt = 0; ; attempt++) {
+    const wait = rateLimitWait(host);
+    if (wait !== null && wait > MAX_RATE_LIMIT_WAIT) {
+      warnRateLimited(rateLimits.get(host)!);
+      return new Response(null, { status: 429, statusText: "Too Many Requests" });
+    }
+    if (wait !== null) await new Promise((resolve) => setTimeout(resolve, wait));
+
+    await acquireRequestSlot();
+    let res: Response | null = null;
+    let error: unknown = null;
+    try {
+      res = await fetch(url, { headers, signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+    } catch (e) {
+      error = e;
+    } finally {
+      releaseRequestSlot();
+    }
+
+    const limit = res && recordRateLimit(url, res);
+    const delay = failingHosts.has(host) ? null : retryDelay(res, limit, attempt);
+    if (delay === null) {
+      if (res && res.status < 500) failingHosts.delete(host);
+      else if (attempt > 0) failingHosts.add(host);
+      // Giving up on a refused request, not a reply sent before the limit hit
+      if (limit?.limited && !res?.ok) warnRateLimited(limit);
+      if (res) return res;
+      throw error;
+    }
+    // Don't hold a connection open on a response we are discarding
+    await res?.body?.cancel();
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Cached GET. Fresh entries are served from disk; stale ones are revalidated
+ * with If-None-Match. In offline mode only the cache is consulted, and on
+ * network failure a stale entry is preferred over nothing. Failures other
+ * than 404 are recorded against the current registry.
+ */
+async function cachedFetch<T>(
+  key: string,
+  url: string,
+  headers: Record<string, string>,
+  read: (res: Response) => Promise<T>
+): Promise<FetchResult<T>> {
+  const cached = readCache<T | null>(key);
+  // Only a 404 is cached as null
+  const fromCache = (): FetchResult<T> =>
+    cached ? { data: cached.data, notFound: cached.data === null } : { data: null, notFound: false };
+  if (cacheSettings.offline) return fromCache();
+  if (cached && isFresh(cached)) return fromCache();
+
+  const reqHeaders = { ...headers };
+  if (cached?.etag) reqHeaders["If-None-Match"] = cached.etag;
+
+  try {
+    const res = await httpFetch(url, reqHeaders);
+    if (res.status === 304 && cached) {
+      writeCache(key, cached.data, cached.etag);
+      return fromCache();
+    }
+    if (!res.ok) {
+      // Remember missing files so README probing doesn't repeat every run
+      if (res.status === 404) {
+        writeCache<T | null>(key, null);
+        return { data: null, notFound: true };
+      }
+      recordFailure(url, res.status, httpError(url, res));
+      return fromCache();
+    }
+    const data = await read(res);
+    writeCache(key, data, res.headers.get("etag") ?? undefined);
+    return { data, notFound: false };
+  } catch (e) {
+    recordFailure(url, null, (e as Error).message);
+    return fromCache();
+  }
+}
+
+async function apiFetchResult<T>(url: string, headers: Record<string, string>): Promise<FetchResult<T>> {
+  return cachedFetch<T>(
+    `api:${url}`,
+    url,
+    { "User-Agent": "skill-finder/1.0", ...headers },
+    async (res) => (await res.json()) as T
+  );
+}
+
+async function apiFetch<T>(url: string, headers: Record<string, string>): Promise<T | null> {
+  return (await apiFetchResult<T>(url, headers)).data;
+}
+
+function githubHeaders(token: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: "application/vnd.github+json",
+  };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  return headers;
+}
+
+async function githubFetch<T>(url: string, token = ghToken): Promise<T | null> {
+  return apiFetch<T>(url, githubHeaders(token));
+}
+
+async function rawFetch(url: string, headers: Record<string, string> = {}): Promise<string | null> {
+  const result = await cachedFetch<string>(
+    `raw:${url}`,
+    url,
+    { "User-Agent": "skill-finder/1.0", ...headers },
+    (res) => res.text()
+  );
+  return result.data;
+}
+
+async function downloadFile(url: string, headers: Record<string, string> = {}): Promise<Buffer | null> {
+  try {
+    const res = await httpFetch(url, { "User-Agent": "skill-finder/1.0", ...headers });
+    if (!res.ok) {
+      if (res.status !== 404) recordFailure(url, res.status, httpError(url, res));
+      return null;
+    }
+    return Buffer.from(await res.arrayBuffer());
+  } catch (e) {
+    recordFailure(url, null, (e as Error).message);
+    return null;
+  }
+}
+
+// --- Git host providers ---
+
+const GITHUB_URL = "https://github.com";
+// GitLab and Gitea page their tree listings; stop after this many pages
+const MAX_TREE_PAGES = 50;
+// Requests spent walking a GitHub tree too large for one recursive listing
+const MAX_SUBTREE_REQUESTS = 200;
+
+function githubProvider(baseUrl = GITHUB_URL): GitProvider {
+  const enterprise = baseUrl !== GITHUB_URL;
+  const api = enterprise ? `${baseUrl}/api/v3` : "https://api.github.com";
+  const host: HostRef = enterprise ? { provider: "github-enterprise", base_url: baseUrl } : {};
+  const envToken = enterprise ? process.env.GH_ENTERPRISE_TOKEN || ghToken : ghToken;
+  const credentials = (repo: string) => repoCredentials(repo, host, envToken);
+  const token = (repo: string) => credentials(repo)?.token;
+  // Both raw.githubusercontent.com and Enterprise raw URLs accept the token
+  const fileHeaders = (repo: string): Record<string, string> => {
+    const value = token(repo);
+    return value ? { Authorization: `token ${value}` } : {};
+  };
+  const fileUrl = (repo: string, ref: string, path: string) =>
+    enterprise
+      ? `${baseUrl}/${repo}/raw/${ref}/${path}`
+      : `https://raw.githubusercontent.com/${repo}/${ref}/${path}`;
+  /**
+   * Recursive listing of tree `sha`. GitHub truncates recursive listings of
+   * very large trees; those are listed one level down instead, with each
+   * subtree listed the same way, until `budget.requests` runs out.
+   */
+  const listTree = async (repo: string, sha: string, prefix: string, budget: { requests: number }): Promise<RepoTree> => {
+    const url = `${api}/repos/${repo}/git/trees/${sha}`;
+    const withPrefix = (items: TreeItem[] = []) => items.map((item) => ({ ...item, path: prefix + item.path }));
+    budget.requests--;
+    const full = await githubFetch<{ tree?: TreeItem[]; truncated?: boolean }>(`${url}?recursive=1`, token(repo));
+    if (!full?.truncated) return { tree: withPrefix(full?.tree), truncated: false };
+
+    const level = budget.requests-- > 0 ? await githubFetch<{ tree?: TreeItem[] }>(url, token(repo)) : null;
+    if (!level?.tree) return { tree: withPrefix(full.tree), truncated: true };
+    const subtrees = await mapLimit(
+      level.tree.filter((item) => item.type === "tree"),
+      MAX_CONCURRENT_REQUESTS,
+      (item): Promise<RepoTree> =>
+        budget.requests > 0
+          ? listTree(repo, item.sha, `${prefix}${item.path}/`, budget)
+          : Promise.resolve({ tree: [], truncated: true })
+    );
+    return {
+      tree: [...withPrefix(level.tree), ...subtrees.flatMap((subtree) => subtree.tree)],
+      truncated: subtrees.some((subtree) => subtree.truncated),
+    };
+  };
+
+  return {
+    type: enterprise ? "github-enterprise" : "github",
+    baseUrl,
+    async defaultBranch(repo) {
+      const data = await githubFetch<{ default_branch?: string }>(`${api}/repos/${repo}`, token(repo));
+      return data?.default_branch ?? "main";
+    },
+    async latestCommit(repo, ref) {
+      const { data, notFound } = await apiFetchResult<{ sha?: string }>(
+        `${api}/repos/${repo}/commits/${ref}`,
+        githubHeaders(token(repo) ?? ghToken)
+      );
+      return { data: data?.sha ?? null, notFound };
+    },
+    async lastCommit(repo, ref, path) {
+      const data = await githubFetch<{ sha: string; commit: { committer: { date: string } } }[]>(
+        `${api}/repos/${repo}/commits?sha=${encodeURIComponent(ref)}&path=${encodeURIComponent(path)}&per_page=1`,
+        token(repo)
+      );
+      return data?.[0] ? { sha: data[0].sha, date: data[0].commit.committer.date } : null;
+    },
+    tree: (repo, ref) => listTree(repo, ref, "", { requests: MAX_SUBTREE_REQUESTS }),
+    readFile: (repo, ref, path) => rawFetch(fileUrl(repo, ref, path), fileHeaders(repo)),
+    downloadFile: (repo, ref, path) => downloadFile(fileUrl(repo, ref, path), fileHeaders(repo)),
+    rawUrl: fileUrl,
+    webUrl: (repo, ref, path) =>
+      path ? `${baseUrl}/${repo}/tree/${ref}/${path}` : `${baseUrl}/${repo}`,
+    cloneUrl: (repo) => `${baseUrl}/${repo}.git`,
+    gitEnv: (repo) => gitAuthEnv(`${baseUrl}/${repo}.git`, credentials(repo), "x-access-token"),
+    parseWebPath(path) {
+      const m = path.match(/^([\w.-]+\/[\w.-]+?)(?:\.git)?(?:\/(?:tree|blob)\/([^/]+)(?:\/(.*))?)?\/?$/);
+      return m ? { repo: m[1], ref: m[2] ?? null, path: m[3] ?? "" } : null;
+    },
+  };
+}
+
+function gitlabProvider(baseUrl: string): GitProvider {
+  const host: HostRef = { provider: "gitlab", base_url: baseUrl };
+  const credentials = (repo: string) => repoCredentials(repo, host, process.env.GITLAB_TOKEN || "");
+  const headers = (repo: string): Record<string, string> => {
+    const token = credentials(repo)?.token;
+    return token ? { "PRIVATE-TOKEN": token } : {};
+  };
+  const project = (repo: string) => `${baseUrl}/api/v4/projects/${encodeURIComponent(repo)}`;
+  const fileUrl = (repo: string, ref: string, path: string) =>
+    `${project(repo)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`;
+
+  return {
+    type: "gitlab",
+    baseUrl,
+    async defaultBranch(repo) {
+      const data = await apiFetch<{ default_branch?: string }>(project(repo), headers(repo));
+      return data?.default_branch ?? "main";
+    },
+    async latestCommit(repo, ref) {
+      const { data, notFound } = await apiFetchResult<{ id?: string }>(
+        `${project(repo)}/repository/commits/${encodeURIComponent(ref)}`,
+        headers(repo)
+      );
+      return { data: data?.id ?? null, notFound };
+    },
+    async lastCommit(repo, ref, path) {
+      const data = await apiFetch<{ id: string; committed_date: string }[]>(
+        `${project(repo)}/repository/commits?ref_name=${encodeURIComponent(ref)}&path=${encodeURIComponent(path)}&per_page=1`,
+        headers(repo)
+      );
+      return data?.[0] ? { sha: data[0].id, date: data[0].committed_date } : null;
+    },
+    async tree(repo, ref) {
+      const tree: TreeItem[] = [];
+      for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+        const items = await apiFetch<{ path: string; type: string; id: string }[]>(
+          `${project(repo)}/repository/tree?recursive=true&per_page=100&page=${page}&ref=${encodeURIComponent(ref)}`,
+          headers(repo)
+        );
+        if (!items) break;
+        for (const item of items) {
+          if (item.type === "blob" || item.type === "tree") {
+            tree.push({ path: item.path, type: item.type, sha: item.id });
+          }
+        }
+        if (items.length < 100) return { tree, truncated: false };
+      }
+      return { tree, truncated: tree.length > 0 };
+    },
+    readFile: (repo, ref, path) => rawFetch(fileUrl(repo, ref, path), headers(repo)),
+    downloadFile: (repo, ref, path) => downloadFile(fileUrl(repo, ref, path), headers(repo)),
+    rawUrl: (repo, ref, path) => `${baseUrl}/${repo}/-/raw/${ref}/${path}`,
+    webUrl: (repo, ref, path) =>
+      path ? `${baseUrl}/${repo}/-/tree/${ref}/${path}` : `${baseUrl}/${repo}`,
+    cloneUrl: (repo) => `${baseUrl}/${repo}.git`,
+    gitEnv: (repo) => gitAuthEnv(`${baseUrl}/${repo}.git`, credentials(repo), "oauth2"),
+    parseWebPath(path) {
+      const m = path.match(/^(.+?)(?:\.git)?(?:\/-\/(?:tree|blob|raw)\/([^/]+)(?:\/(.*))?)?\/?$/);
+      return m && m[1].includes("/") ? { repo: m[1], ref: m[2] ?? null, path: m[3] ?? "" } : null;
+    },
+  };
+}
+
+function giteaProvider(baseUrl: string): GitProvider {
+  const host: HostRef = { provider: "gitea", base_url: baseUrl };
+  const credentials = (repo: string) => repoCredentials(repo, host, process.env.GITEA_TOKEN || "");
+  const headers = (repo: string): Record<string, string> => {
+    const token = credentials(repo)?.token;
+    return token ? { Authorization: `token ${token}` } : {};
+  };
+  const api = `${baseUrl}/api/v1/repos`;
+  const fileUrl = (repo: string, ref: string, path: string) =>
+    `${api}/${repo}/raw/${path}?ref=${encodeURIComponent(ref)}`;
+  const latestCommit = async (repo: string, ref: string): Promise<FetchResult<string>> => {
+    const { data, notFound } = await apiFetchResult<{ sha?: string }[]>(
+      `${api}/${repo}/commits?sha=${encodeURIComponent(ref)}&limit=1&stat=false&files=false`,
+      headers(repo)
+    );
+    return { data: data?.[0]?.sha ?? null, notFound };
+  };
+
+  return {
+    type: "gitea",
+    baseUrl,
+    async defaultBranch(repo) {
+      const data = await apiFetch<{ default_branch?: string }>(`${api}/${repo}`, headers(repo));
+      return data?.default_branch ?? "main";
+    },
+    latestCommit,
+    async lastCommit(repo, ref, path) {
+      const data = await apiFetch<{ sha: string; commit: { committer: { date: string } } }[]>(
+        `${api}/${repo}/commits?sha=${encodeURIComponent(ref)}&path=${encodeURIComponent(path)}&limit=1&stat=false&files=false`,
+        headers(repo)
+      );
+      return data?.[0] ? { sha: data[0].sha, date: data[0].commit.committer.date } : null;
+    },
+    async tree(repo, ref) {
+      // The trees endpoint wants a commit SHA rather than a branch name
+      const sha = /^[0-9a-f]{40}$/i.test(ref) ? ref : (await latestCommit(repo, ref)).data;
+      const tree: TreeItem[] = [];
+      if (!sha) return { tree, truncated: false };
+      for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+        const data = await apiFetch<{ tree?: TreeItem[]; truncated?: boolean }>(
+          `${api}/${repo}/git/trees/${sha}?recursive=true&per_page=1000&page=${page}`,
+          headers(repo)
+        );
+        tree.push(...(data?.tree ?? []));
+        if (!data?.truncated) return { tree, truncated: false };
+      }
+      return { tree, truncated: true };
+    },
+    readFile: (repo, ref, path) => rawFetch(fileUrl(repo, ref, path), headers(repo)),
+    downloadFile: (repo, ref, path) => downloadFile(fileUrl(repo, ref, path), headers(repo)),
+    rawUrl: (repo, ref, path) => `${baseUrl}/${repo}/raw/${ref}/${path}`,
+    webUrl: (repo, ref, path) =>
+      path ? `${baseUrl}/${repo}/src/${ref}/${path}` : `${baseUrl}/${repo}`,
+    cloneUrl: (repo) => `${baseUrl}/${repo}.git`,
+    gitEnv: (repo) => gitAuthEnv(`${baseUrl}/${repo}.git`, credentials(repo), "git"),
+    parseWebPath(path) {
+      const m = path.match(
+        /^([\w.-]+\/[\w.-]+?)(?:\.git)?(?:\/(?:src|raw)\/(?:(?:branch|tag|commit)\/)?([^/]+)(?:\/(.*))?)?\/?$/
+      );
+      return m ? { repo: m[1], ref: m[2] ?? null, path: m[3] ?? "" } : null;
+    },
+  };
+}
+
+/** Recursive listing of a directory on disk, skipping VCS and dependency folders. */
+function walkDirectory(root: string, prefix = ""): TreeItem[] {
+  const items: TreeItem[] = [];
+  for (const name of readdirSync(join(root, prefix)).sort()) {
+    if (name === ".git" || name === "node_modules") continue;
+    const rel = prefix ? `${prefix}/${name}` : name;
+    if (statSync(join(root, rel)).isDirectory()) {
+      items.push({ path: rel, type: "tree", sha: "" }, ...walkDirectory(root, rel));
+    } else {
+      const content = readFileSync(join(root, rel));
+      items.push({ path: rel, type: "blob", sha: gitBlobSha(content), size: content.length });
+    }
+  }
+  return items;
+}
+
+function readLocalFile(file: string): Buffer | null {
+  return existsSync(file) && statSync(file).isFile() ? readFileSync(file) : null;
+}
+
+/** A directory on disk, read as-is; branches and commits don't apply. */
+function localProvider(dir: string): GitProvider {
+  const fileUrl = (path: string) => `file://${path ? join(dir, path) : dir}`;
+  return {
+    type: "local",
+    baseUrl: dir,
+    defaultBranch: async () => "",
+    latestCommit: async () => ({ data: null, notFound: false }),
+    lastCommit: async () => null,
+    tree: async () => ({ tree: existsSync(dir) ? walkDirectory(dir) : [], truncated: false }),
+    readFile: async (_repo, _ref, path) => readLocalFile(join(dir, path))?.toString("utf-8") ?? null,
+    downloadFile: async (_repo, _ref, path) => readLocalFile(join(dir, path)),
+    rawUrl: (_repo, _ref, path) => fileUrl(path),
+    webUrl: (_repo, _ref, path) => fileUrl(path ?? ""),
+    cloneUrl: () => dir,
+    gitEnv: () => ({}),
+    parseWebPath: () => null,
+  };
+}
+
+function runGit(
+  dir: string,
+  gitArgs: string[],
+  env: Record<string, string> = {}
+): { ok: boolean; stdout: string; stderr: string } {
+  const result = spawnSync("git", ["-C", dir, ...gitArgs], {
+    encoding: "buffer",
+    env: { ...process.env, GIT_TERMINAL_PROMPT: "0", ...env },
+    maxBuffer: 256 * 1024 * 1024,
+  });
+  return {
+    ok: result.status === 0,
+    stdout: result.stdout?.toString("utf-8") ?? "",
+    stderr: (result.stderr?.toString("utf-8") || result.error?.message || "").trim(),
+  };
+}
+
+// Remotes already cloned or fetched by this process
+const refreshedCheckouts = new Set<string>();
+
+/**
+ * Shallow clone of a git remote under .cache/git/, fetched again once older
+ * than the cache TTL (or on --refresh). Offline mode uses whatever is there.
+ */
+function ensureCheckout(remote: string, env: Record<string, string>): string | null {
+  const dir = resolve(CACHE_DIR, "git", createHash("sha1").update(remote).digest("hex"));
+  const cloned = existsSync(join(dir, ".git"));
+  if (cacheSettings.offline || refreshedCheckouts.has(remote)) return cloned ? dir : null;
+  refreshedCheckouts.add(remote);
+
+  if (!cloned) {
+    mkdirSync(dirname(dir), { recursive: true });
+    const result = runGit(dirname(dir), ["clone", "--quiet", "--depth", "1", "--", remote, dir], env);
+    if (!result.ok) {
+      console.error(JSON.stringify({ warning: `git clone ${remote} failed: ${result.stderr}` }));
+      rmSync(dir, { recursive: true, force: true });
+      return null;
+    }
+    return dir;
+  }
+
+  const age = Date.now() - statSync(join(dir, ".git", "HEAD")).mtimeMs;
+  if (!cacheSettings.refresh && age < cacheSettings.ttl * 1000) return dir;
+
+  const fetched = runGit(dir, ["fetch", "--quiet", "--depth", "1", "origin"], env);
+  const reset = fetched.ok ? runGit(dir, ["reset", "--quiet", "--hard", "@{upstream}"]) : fetched;
+  if (!reset.ok) {
+    // Keep searching the previous checkout
+    console.error(JSON.stringify({ warning: `git fetch ${remote} failed: ${reset.stderr}` }));
+  } else {
+    // Mark the checkout fresh even when nothing changed
+    const head = join(dir, ".git", "HEAD");
+    writeFileSync(head, readFileSync(head));
+  }
+  return dir;
+}
+
+/** A git remote without a web API, read from a shallow clone in the cache. */
+function gitRemoteProvider(remote: string): GitProvider {
+  const gitEnv = () => gitAuthEnv(remote, registryCredentials("", { provider: "git", base_url: remote }), "git");
+  const checkout = () => ensureCheckout(remote, gitEnv());
+  const resolveRef = (dir: string, ref: string) => {
+    for (const candidate of [`origin/${ref}`, ref]) {
+      const result = runGit(dir, ["rev-parse", "--verify", "--quiet", "--end-of-options", `${candidate}^{commit}`]);
+      if (result.ok) return result.stdout.trim();
+    }
+    return null;
+  };
+  const show = (ref: string, path: string): Buffer | null => {
+    const dir = checkout();
+    const commit = dir && resolveRef(dir, ref || "HEAD");
+    if (!dir || !commit) return null;
+    const result = spawnSync("git", ["-C", dir, "show", `${commit}:${path}`], {
+      maxBuffer: 256 * 1024 * 1024,
+    });
+    return result.status === 0 ? result.stdout : null;
+  };
+
+  return {
+    type: "git",
+    baseUrl: remote,
+    async defaultBranch() {
+      const dir = checkout();
+      const result = dir ? runGit(dir, ["rev-parse", "--abbrev-ref", "HEAD"]) : null;
+      return result?.ok ? result.stdout.trim() : "main";
+    },
+    async latestCommit(_repo, ref) {
+      const dir = checkout();
+      // Neither a failed clone nor a single-branch checkout proves the ref is gone
+      return { data: dir ? resolveRef(dir, ref) : null, notFound: false };
+    },
+    async lastCommit(_repo, ref, path) {
+      const dir = checkout();
+      const commit = dir && resolveRef(dir, ref);
+      if (!dir || !commit) return null;
+      const log = runGit(dir, ["log", "-1", "--format=%H %cI", commit, "--", path || "."]);
+      const [sha, date] = log.stdout.trim().split(" ");
+      return log.ok && sha ? { sha, date } : null;
+    },
+    async tree(_repo, ref) {
+      const dir = checkout();
+      const commit = dir && resolveRef(dir, ref);
+      if (!dir || !commit) return { tree: [], truncated: false };
+      const listing = runGit(dir, ["ls-tree", "-r", "-t", "-l", "--full-tree", commit]);
+      const tree = listing.stdout
+        .split("\n")
+        .map((line) => line.match(/^\d+ (blob|tree) ([0-9a-f]+)\s+(\d+|-)\t(.+)$/))
+        .filter((m): m is RegExpMatchArray => m !== null)
+        .map((m) => ({
+          path: m[4],
+          type: m[1] as TreeItem["type"],
+          sha: m[2],
+          ...(m[3] === "-" ? {} : { size: Number(m[3]) }),
+        }));
+      return { tree, truncated: false };
+    },
+    readFile: async (_repo, ref, path) => show(ref, path)?.toString("utf-8") ?? null,
+    downloadFile: async (_repo, ref, path) => show(ref, path),
+    rawUrl: (_repo, ref, path) => `${remote}#${ref}:${path}`,
+    webUrl: (_repo, ref, path) => (path ? `${remote}#${ref}:${path}` : remote),
+    cloneUrl: () => remote,
+    gitEnv,
+    parseWebPath: () => null,
+  };
+}
+
+function providerFor(host: HostRef = {}): GitProvider {
+  const baseUrl = host.base_url?.replace(/\/+$/, "");
+  switch (host.provider) {
+    case "gitlab":
+      return gitlabProvider(baseUrl ?? "https://gitlab.com");
+    case "gitea":
+      return giteaProvider(baseUrl ?? "https://gitea.com");
+    case "github-enterprise":
+      return githubProvider(baseUrl);
+    case "local":
+      return localProvider(host.base_url ?? BASE_DIR);
+    case "git":
+      return gitRemoteProvider(host.base_url ?? "");
+    default:
+      return githubProvider();
+  }
+}
+
+/** The provider fields to persist (nothing for github.com). */
+function hostRef(provider: GitProvider): HostRef {
+  return provider.type === "github" ? {} : { provider: provider.type, base_url: provider.baseUrl };
+}
+
+const originProviders = new Map<string, GitProvider | null>();
+
+/** Provider for a web URL origin: github.com or the host of a configured registry. */
+function providerForOrigin(origin: string): GitProvider | null {
+  const wanted = origin.toLowerCase();
+  if (wanted === GITHUB_URL) return githubProvider();
+  if (!originProviders.has(wanted)) {
+    const registry = loadRegistries().find((r) => r.base_url?.toLowerCase() === wanted);
+    originProviders.set(wanted, registry ? providerFor(registry) : null);
+  }
+  return originProviders.get(wanted)!;
+}
+
+// --- README parsing ---
+
+/**
+ * Parse skill entries from a README. Supports 3 formats:
+ * 1. List: `- [name](url) - description`
+ * 2. Table: `| [name](url) | description |`
+ * 3. Mixed list: `- **name** - description` or `- [name](url): description`
+ *
+ * Per-registry `parser` rules can restrict the format, map table columns,
+ * choose which heading levels become categories and skip whole sections.
+ */
+function parseReadme(content: string, repoSlug: string, options: ReadmeParseOptions = {}): SkillEntry[] {
+  const { formats, provider = providerFor(), rules = {}, branch = "main", dir = "" } = options;
+  const resolve = (href: string) => resolveUrl(href, repoSlug, provider, branch, dir);
+  const entries: SkillEntry[] = [];
+  const matched = (format: ReadmeFormat) => {
+    if (formats) formats[format] = (formats[format] ?? 0) + 1;
+  };
+  const skipHeadings = (rules.skip_headings ?? []).map((h) => h.toLowerCase());
+  const lines = content.split("\n");
+  let currentCategory = "";
+  // Level of the skipped heading whose section we are in
+  let skipLevel: number | null = null;
+  // Header cells of the current table, once its separator row has been seen
+  let tableHeaders: string[] | null = null;
+  let previousLine = "";
+
+  for (const line of lines) {
+    const prev = previousLine;
+    previousLine = line;
+
+    // Track headings as category
+    const headingMatch = line.match(/^(#{1,6})\s+(.+)/);
+    if (headingMatch) {
+      const level = headingMatch[1].length;
+      const heading = headingMatch[2].trim().replace(/[*_`]/g, "");
+      tableHeaders = null;
+      if (skipLevel !== null && level <= skipLevel) skipLevel = null;
+      if (skipHeadings.some((h) => heading.toLowerCase().startsWith(h))) {
+        skipLevel = level;
+        continue;
+      }
+      if (rules.category_levels) {
+        if (rules.category_levels.includes(level)) currentCategory = heading;
+        continue;
+      }
+      // Skip generic headings
+      if (
+        level <= 4 &&
+        !/^(table of contents|contributing|license|acknowledgment|getting started|installation|usage|about)/i.test(
+          heading
+        )
+      ) {
+        currentCategory = heading;
+      }
+      continue;
+    }
+    if (skipLevel !== null) continue;
+
+    if (rules.format !== "table") {
+      // Format 1: List with link — `- [name](url) - description` or `* [name](url) — description`
+      const listLinkMatch = line.match(
+        /^[\s]*[-*]\s+\[([^\]]+)\]\(([^)]+)\)\s*[-–—:]\s*(.+)/
+      );
+      if (listLinkMatch) {
+        const href = listLinkMatch[2].trim();
+        if (href.startsWith("#")) continue; // skip anchor-only links (TOC entries)
+        entries.push({
+          name: listLinkMatch[1].trim(),
+          url: resolve(href),
+          description: listLinkMatch[3].trim(),
+          category: currentCategory,
+          source: repoSlug,
+        });
+        matched("list");
+        continue;
+      }
+
+      // Format 1b: List with link, no description — `- [name](url)`
+      const listLinkOnlyMatch = line.match(
+        /^[\s]*[-*]\s+\[([^\]]+)\]\(([^)]+)\)\s*$/
+      );
+      if (listLinkOnlyMatch) {
+        const href = listLinkOnlyMatch[2].trim();
+        if (href.startsWith("#")) continue; // skip anchor-only links (TOC entries)
+        entries.push({
+          name: listLinkOnlyMatch[1].trim(),
+          url: resolve(href),
+          description: "",
+          category: currentCategory,
+          source: repoSlug,
+        });
+        matched("list-link-only");
+        continue;
+      }
+    }
+
+    if (rules.format === "list" || !line.includes("|")) {
+      tableHeaders = null;
+      continue;
+    }
+
+    // Separator row: the line above it held the column headers
+    if (line.match(/^[\s]*\|[\s-:|]+\|[\s]*$/)) {
+      tableHeaders = tableCells(prev).map((c) => stripLinks(c).toLowerCase());
+      continue;
+    }
+
+    if (rules.columns) {
+      const entry = mappedTableRow(tableCells(line), tableHeaders, rules.columns);
+      if (entry && !entry.href.startsWith("#")) {
+        entries.push({
+          name: entry.name,
+          url: resolve(entry.href),
+          description: entry.description,
+          category: entry.category || currentCategory,
+          source: repoSlug,
+        });
+        matched("table");
+      }
+      continue;
+    }
+
+    // Format 2: Table row — `| [name](url) | description |` or `| name | description | url |`
+    const cells = line
+      .split("|")
+      .map((c) => c.trim())
+      .filter(Boolean);
+    if (cells.length >= 2) {
+      // Check if first cell has a link
+      const cellLinkMatch = cells[0].match(/\[([^\]]+)\]\(([^)]+)\)/);
+      if (cellLinkMatch) {
+        const href = cellLinkMatch[2].trim();
+        if (href.startsWith("#")) continue; // skip anchor-only links
+        const desc = cells
+          .slice(1)
+          .map((c) => stripLinks(c))
+          .filter((c) => c && !c.match(/^[\s-:|]+$/))
+          .join(" — ");
+        entries.push({
+          name: cellLinkMatch[1].trim(),
+          url: resolve(href),
+          description: desc,
+          category: currentCategory,
+          source: repoSlug,
+        });
+        matched("table");
+        continue;
+      }
+      // Check if any cell has a link
+      for (let i = 0; i < cells.length; i++) {
+        const innerMatch = cells[i].match(/\[([^\]]+)\]\(([^)]+)\)/);
+        if (innerMatch) {
+          const href = innerMatch[2].trim();
+          if (href.startsWith("#")) break; // skip anchor-only links
+          const otherCells = cells
+            .filter((_, j) => j !== i)
+            .map((c) => stripLinks(c))
+            .filter((c) => c && !c.match(/^[\s-:|]+$/));
+          entries.push({
+            name: innerMatch[1].trim(),
+            url: resolve(href),
+            description: otherCells.join(" — "),
+            category: currentCategory,
+            source: repoSlug,
+          });
+          matched("table-inner-link");
+          break;
+        }
+      }
+    }
+  }
+
+  return entries;
+}
+
+/** Cells of a markdown table row, keeping empty cells so columns line up. */
+function tableCells(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((c) => c.trim());
+}
+
+function stripLinks(text: string): string {
+  return text.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1").trim();
+}
+
+/**
+ * Read one table row through a `columns` mapping. Columns are 0-based indexes
+ * or header names; the link comes from the `url` column, else the name column.
+ */
+function mappedTableRow(
+  cells: string[],
+  headers: string[] | null,
+  columns: NonNullable<ParserRules["columns"]>
+): { name: string; href: string; description: string; category: string } | null {
+  const cell = (key: keyof typeof columns): string | undefined => {
+    const column = columns[key];
+    if (column === undefined) return undefined;
+    const index = typeof column === "number" ? column : headers?.indexOf(column.toLowerCase()) ?? -1;
+    return index >= 0 ? cells[index] : undefined;
+  };
+
+  const nameCell = cell("name");
+  const urlCell = cell("url") ?? nameCell;
+  if (!nameCell || !urlCell) return null;
+  const link = urlCell.match(/\[[^\]]*\]\(([^)]+)\)/)?.[1] ?? urlCell.match(/^https?:\/\/\S+$/)?.[0];
+  const name = stripLinks(nameCell).replace(/[*_`]/g, "");
+  if (!link || !name) return null;
+  return {
+    name,
+    href: link.trim(),
+    description: stripLinks(cell("description") ?? ""),
+    category: stripLinks(cell("category") ?? ""),
+  };
+}
+
+/** Glob → RegExp: `**` crosses directories, `*` and `?` do not. */
+function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      // `**/` also matches zero directories
+      pattern += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += glob[i + 2] === "/" ? 2 : 1;
+    } else if (c === "*") {
+      pattern += "[^/]*";
+    } else if (c === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/** Whether a skill directory passes the registry's tree include/exclude globs. */
+function treePathAllowed(path: string, rules: ParserRules): boolean {
+  if (rules.include?.length && !rules.include.some((g) => globToRegExp(g).test(path))) return false;
+  return !rules.exclude?.some((g) => globToRegExp(g).test(path));
+}
+
+function resolveUrl(
+  url: string,
+  repoSlug: string,
+  provider: GitProvider,
+  branch = "main",
+  dir = ""
+): string {
+  if (url.startsWith("http://") || url.startsWith("https://")) return url;
+  // Relative path — make absolute to the registry's host, from the page's directory
+  const path = resolveRepoPath(dir, url) ?? url.replace(/^\.\//, "");
+  return provider.webUrl(repoSlug, branch, path);
+}
+
+/** Repo path of a relative link from `dir`; `/` links start at the repo root. Null if it leaves the repo. */
+function resolveRepoPath(dir: string, href: string): string | null {
+  const parts: string[] = [];
+  const base = href.startsWith("/") ? [] : dir.split("/");
+  for (const seg of [...base, ...href.split("/")]) {
+    if (!seg || seg === ".") continue;
+    if (seg !== "..") parts.push(seg);
+    else if (!parts.pop()) return null;
+  }
+  return parts.join("/");
+}
+
+// --- Query parsing ---
+
+/**
+ * Split a query into tokens: `(`, `)`, `AND`, `OR`, and terms with optional
+ * `-` negation, `field:` qualifier and double-quoted phrases.
+ */
+function lexQuery(input: string): { tokens: QueryToken[] } | { error: string; position: number } {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "(" || ch === ")") {
+      tokens.push({ kind: ch === "(" ? "lparen" : "rparen", pos: i });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let negated = false;
+    if (ch === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+      if (input[i] === "(") {
+        tokens.push({ kind: "not", pos: start });
+        continue;
+      }
+    }
+
+    let field: string | undefined;
+    const fieldMatch = input.slice(i).match(/^([A-Za-z]+):(?=[^\s()])/);
+    if (fieldMatch) {
+      field = fieldMatch[1].toLowerCase();
+      i += fieldMatch[0].length;
+    }
+
+    let text: string;
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end < 0) return { error: "Unterminated quoted phrase", position: i };
+      text = input.slice(i + 1, end);
+      i = end + 1;
+    } else {
+      const m = input.slice(i).match(/^[^\s()"]+/);
+      text = m ? m[0] : "";
+      i += text.length;
+    }
+
+    if (!negated && !field && (text === "AND" || text === "OR")) {
+      tokens.push({ kind: text === "AND" ? "and" : "or", pos: start });
+    } else {
+      tokens.push({ kind: "term", pos: start, text, field, negated });
+    }
+  }
+
+  return { tokens };
+}
+
+/**
+ * Parse the search keywords into a boolean query. Adjacent terms are OR'ed
+ * (the historical keyword behaviour) and `AND` binds tighter than `OR`.
+ * Adjacent `-term`, `source:` and `registry:` terms filter the surrounding
+ * group instead of widening it.
+ */
+function parseQuery(input: string): ParsedQuery | { error: string; position: number } {
+  const lexed = lexQuery(input);
+  if ("error" in lexed) return lexed;
+  const tokens = lexed.tokens;
+  const terms = new Map<string, QueryTerm>();
+  let pos = 0;
+
+  class ParseError {
+    constructor(readonly message: string, readonly position: number) {}
+  }
+  const fail = (message: string, at = tokens[pos]?.pos ?? input.length): never => {
+    throw new ParseError(message, at);
+  };
+
+  const makeTerm = (tok: QueryToken): QueryNode => {
+    const field = (tok.field ?? null) as QueryField | null;
+    if (field && !QUERY_FIELDS.includes(field)) {
+      fail(`Unknown field '${tok.field}:' (expected one of ${QUERY_FIELDS.map((f) => `${f}:`).join(", ")})`, tok.pos);
+    }
+    const tokensForTerm = tokenize(tok.text ?? "");
+    if (!tokensForTerm.length) fail(`Term '${tok.text}' has no searchable characters`, tok.pos);
+
+    const key = `${field ? `${field}:` : ""}${tokensForTerm.join(" ")}`;
+    if (!terms.has(key)) terms.set(key, { key, tokens: tokensForTerm, field });
+    const node: QueryNode = { type: "term", term: terms.get(key)! };
+    return tok.negated ? { type: "not", child: node } : node;
+  };
+
+  const parseUnary = (): QueryNode => {
+    const tok = tokens[pos];
+    if (!tok) return fail("Unexpected end of query");
+    pos++;
+    switch (tok.kind) {
+      case "term":
+        return makeTerm(tok);
+      case "not":
+      case "lparen": {
+        const inner = parseOr();
+        if (tokens[pos]?.kind !== "rparen") fail("Missing closing parenthesis", tok.pos);
+        pos++;
+        return tok.kind === "not" ? { type: "not", child: inner } : inner;
+      }
+      case "rparen":
+        return fail("Unexpected ')'", tok.pos);
+      default:
+        return fail(`Unexpected ${tok.kind.toUpperCase()}`, tok.pos);
+    }
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (tokens[pos]?.kind === "and") {
+      pos++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  const parseOr = (): QueryNode => {
+    const positives: QueryNode[] = [];
+    const filters: QueryNode[] = [];
+    let explicit = false;
+
+    while (pos < tokens.length && tokens[pos].kind !== "rparen") {
+      const node = parseAnd();
+      // `-term`, `source:` and `registry:` next to other terms narrow the
+      // group; after an explicit OR they are ordinary operands
+      const narrows =
+        node.type === "not" || (node.type === "term" && !isScoredField(node.term.field));
+      if (narrows && !explicit) filters.push(node);
+      else positives.push(node);
+
+      explicit = tokens[pos]?.kind === "or";
+      if (explicit) {
+        pos++;
+        if (pos >= tokens.length || tokens[pos].kind === "rparen") fail("Expected a term after OR");
+      }
+    }
+
+    if (!positives.length && !filters.length) fail("Empty query group");
+    const any: QueryNode | null = !positives.length
+      ? null
+      : positives.length === 1
+        ? positives[0]
+        : { type: "or", children: positives };
+    if (!filters.length) return any!;
+    if (!any && filters.length === 1) return filters[0];
+    return { type: "and", children: any ? [any, ...filters] : filters };
+  };
+
+  try {
+    const root = parseOr();
+    if (pos < tokens.length) fail("Unexpected ')'");
+
+    const scoring = new Map<string, QueryTerm>();
+    const collect = (node: QueryNode, negated: boolean): void => {
+      if (node.type === "term") {
+        if (!negated) scoring.set(node.term.key, node.term);
+      } else if (node.type === "not") {
+        collect(node.child, !negated);
+      } else {
+        node.children.forEach((child) => collect(child, negated));
+      }
+    };
+    collect(root, false);
+    if (!scoring.size) fail("Query needs at least one term that is not negated", 0);
+
+    return { root, terms: [...terms.values()], scoring: [...scoring.values()] };
+  } catch (e) {
+    if (e instanceof ParseError) return { error: e.message, position: e.position };
+    throw e;
+  }
+}
+
+// --- Ranking ---
+
+function levenshteinSimilarity(a: string, b: string): number {
+  if (a === b) return 1.0;
+  const lenA = a.length;
+  const lenB = b.length;
+  if (!lenA || !lenB) return 0;
+
+  let prev = Array.from({ length: lenB + 1 }, (_, j) => j);
+  let curr = new Array(lenB + 1);
+
+  for (let i = 1; i <= lenA; i++) {
+    curr[0] = i;
+    for (let j = 1; j <= lenB; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    [prev, curr] = [curr, prev];
+  }
+
+  return 1 - prev[lenB] / Math.max(lenA, lenB);
+}
+
+const INDEX_FIELDS: IndexField[] = ["name", "description", "category", "content"];
+const QUERY_FIELDS: QueryField[] = [...INDEX_FIELDS, "source", "registry"];
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function fieldText(doc: SearchDocument, field: IndexField): string {
+  return (field === "content" ? doc.content : doc.entry[field]) || "";
+}
+
+function buildIndex(docs: SearchDocument[]): SearchIndex {
+  const postings = {} as SearchIndex["postings"];
+  const lengths = {} as SearchIndex["lengths"];
+  const avgLength = {} as SearchIndex["avgLength"];
+
+  for (const field of INDEX_FIELDS) {
+    const fieldPostings = new Map<string, Map<number, number>>();
+    const fieldLengths: number[] = [];
+
+    docs.forEach((doc, id) => {
+      const tokens = tokenize(fieldText(doc, field));
+      fieldLengths.push(tokens.length);
+      for (const token of tokens) {
+        let docsForToken = fieldPostings.get(token);
+        if (!docsForToken) fieldPostings.set(token, (docsForToken = new Map()));
+        docsForToken.set(id, (docsForToken.get(id) ?? 0) + 1);
+      }
+    });
+
+    postings[field] = fieldPostings;
+    lengths[field] = fieldLengths;
+    const total = fieldLengths.reduce((sum, n) => sum + n, 0);
+    avgLength[field] = docs.length ? total / docs.length : 0;
+  }
+
+  return { docs, postings, lengths, avgLength };
+}
+
+/** How well a query term matches one indexed token (0 when it doesn't). */
+function matchToken(
+  term: string,
+  token: string,
+  weights: RankingWeights
+): { rule: MatchRule; strength: number } | null {
+  if (term === token) return { rule: "exact", strength: 1.0 };
+  if (term.length >= 2 && token.includes(term)) return { rule: "substring", strength: 0.85 };
+  if (token.length >= 3 && term.includes(token)) return { rule: "part", strength: 0.65 };
+  if (Math.abs(term.length - token.length) > 3 || Math.min(term.length, token.length) < 3) {
+    return null;
+  }
+  const sim = levenshteinSimilarity(term, token);
+  return sim >= weights.typo_threshold ? { rule: "levenshtein", strength: sim * 0.75 } : null;
+}
+
+function saturation(
+  index: SearchIndex,
+  field: IndexField,
+  doc: number,
+  tf: number,
+  weights: RankingWeights
+): number {
+  const avg = index.avgLength[field] || 1;
+  const norm = 1 - weights.b + (weights.b * index.lengths[field][doc]) / avg;
+  // Normalized so a single occurrence in an average-length field scores 1
+  return Math.min(1, (tf * (weights.k1 + 1)) / (tf + weights.k1 * norm));
+}
+
+function isScoredField(field: QueryField | null): field is IndexField | null {
+  return field === null || INDEX_FIELDS.includes(field as IndexField);
+}
+
+/** Normalized token string of a field, padded so phrases match whole tokens. */
+function phraseText(doc: SearchDocument, field: IndexField): string {
+  return ` ${tokenize(fieldText(doc, field)).join(" ")} `;
+}
+
+/**
+ * Best match of every query term in every document, plus each term's IDF.
+ * Single-token terms go through the inverted index with typo tolerance;
+ * phrases must appear verbatim (after normalization) in a field.
+ */
+function matchTerms(
+  index: SearchIndex,
+  terms: QueryTerm[],
+  weights: RankingWeights,
+  mode: MatchMode
+): { matches: Map<number, Map<string, TermMatch>>; idf: Map<string, number> } {
+  const boosts: Record<IndexField, number> = {
+    name: weights.name_boost,
+    description: weights.description_boost,
+    category: weights.category_boost,
+    content: weights.content_boost,
+  };
+  const total = index.docs.length;
+  const matches = new Map<number, Map<string, TermMatch>>();
+  const idf = new Map<string, number>();
+
+  const record = (doc: number, match: TermMatch): void => {
+    let perTerm = matches.get(doc);
+    if (!perTerm) matches.set(doc, (perTerm = new Map()));
+    const current = perTerm.get(match.term);
+    if (!current || match.score > current.score) perTerm.set(match.term, match);
+  };
+
+  for (const term of terms) {
+    if (!isScoredField(term.field)) continue;
+    const fields = term.field ? [term.field] : INDEX_FIELDS;
+    const matchingDocs = new Set<number>();
+
+    if (term.tokens.length > 1) {
+      const phrase = ` ${term.tokens.join(" ")} `;
+      index.docs.forEach((doc, id) => {
+        for (const field of fields) {
+          if (!phraseText(doc, field).includes(phrase)) continue;
+          matchingDocs.add(id);
+          record(id, {
+            term: term.key,
+            field,
+            token: term.tokens.join(" "),
+            rule: "exact",
+            strength: 1.0,
+            score: boosts[field] * saturation(index, field, id, 1, weights),
+          });
+        }
+      });
+    } else {
+      const text = term.tokens[0];
+      for (const field of fields) {
+        for (const [token, docsForToken] of index.postings[field]) {
+          const match =
+            mode === "exact"
+              ? text === token ? { rule: "exact" as const, strength: 1.0 } : null
+              : matchToken(text, token, weights);
+          if (!match) continue;
+
+          for (const [doc, tf] of docsForToken) {
+            if (match.rule !== "levenshtein") matchingDocs.add(doc);
+            record(doc, {
+              term: term.key,
+              field,
+              token,
+              rule: match.rule,
+              strength: match.strength,
+              score: boosts[field] * match.strength * saturation(index, field, doc, tf, weights),
+            });
+          }
+        }
+      }
+    }
+
+    const df = matchingDocs.size;
+    idf.set(term.key, Math.log(1 + (total - df + 0.5) / (df + 0.5)));
+  }
+
+  return { matches, idf };
+}
+
+/** `source:` and `registry:` terms filter on metadata and are not scored. */
+function matchesMetadata(doc: SearchDocument, term: QueryTerm): boolean {
+  const needle = term.tokens.join(" ");
+  const haystacks =
+    term.field === "source"
+      ? [doc.entry.source]
+      : [doc.registry.id, doc.registry.repo, doc.registry.name];
+  return haystacks.some((h) => tokenize(h).join(" ").includes(needle));
+}
+
+function evaluateQuery(
+  node: QueryNode,
+  doc: SearchDocument,
+  perTerm: Map<string, TermMatch> | undefined
+): boolean {
+  switch (node.type) {
+    case "term":
+      return isScoredField(node.term.field)
+        ? perTerm?.has(node.term.key) ?? false
+        : matchesMetadata(doc, node.term);
+    case "not":
+      return !evaluateQuery(node.child, doc, perTerm);
+    case "and":
+      return node.children.every((child) => evaluateQuery(child, doc, perTerm));
+    case "or":
+      return node.children.some((child) => evaluateQuery(child, doc, perTerm));
+  }
+}
+
+/**
+ * Rank all indexed documents against a parsed query. Each scoring term takes
+ * its best field match (field boost × match strength × BM25 saturation); the
+ * final score blends the best term with the IDF-weighted mean over all terms,
+ * so documents matching more and rarer keywords rank higher. Documents that
+ * match a keyword but fail the boolean query are returned flagged `excluded`.
+ * In exact mode only whole tokens match.
+ */
+function rankDocuments(
+  index: SearchIndex,
+  query: ParsedQuery,
+  weights: RankingWeights,
+  mode: MatchMode = "fuzzy"
+): RankedDocument[] {
+  const { matches, idf } = matchTerms(index, query.terms, weights, mode);
+  const scoring = query.scoring.filter((t) => isScoredField(t.field));
+  const idfTotal = scoring.reduce((sum, t) => sum + (idf.get(t.key) ?? 0), 0) || 1;
+  const ranked: RankedDocument[] = [];
+
+  index.docs.forEach((doc, id) => {
+    const perTerm = matches.get(id);
+    // Metadata-only queries accept every document; otherwise a scoring match is required
+    if (scoring.length && !scoring.some((t) => perTerm?.has(t.key))) return;
+    const excluded = !evaluateQuery(query.root, doc, perTerm);
+    if (!scoring.length) {
+      if (!excluded) ranked.push({ doc: id, score: 1, best: 1, coverage: 1, matches: [] });
+      return;
+    }
+
+    const termMatches = scoring
+      .map((t) => perTerm?.get(t.key))
+      .filter((m): m is TermMatch => Boolean(m))
+      .map((m) => ({ ...m, idf: Math.round((idf.get(m.term) ?? 0) * 1000) / 1000 }));
+    const best = Math.max(...termMatches.map((m) => m.score));
+    const weighted =
+      termMatches.reduce((sum, m) => sum + (idf.get(m.term) ?? 0) * m.score, 0) / idfTotal;
+    const score = (1 - weights.coverage_weight) * best + weights.coverage_weight * weighted;
+    ranked.push({
+      doc: id,
+      score: Math.round(score * 1000) / 1000,
+      best,
+      coverage: weighted,
+      matches: termMatches,
+      excluded: excluded || undefined,
+    });
+  });
+
+  return ranked;
+}
+
+/**
+ * Rank documents against regular expressions (case-insensitive). Each
+ * pattern scores its best field boost; patterns are weighted equally.
+ */
+function rankByRegex(
+  index: SearchIndex,
+  patterns: RegExp[],
+  weights: RankingWeights
+): RankedDocument[] {
+  const boosts: Record<IndexField, number> = {
+    name: weights.name_boost,
+    description: weights.description_boost,
+    category: weights.category_boost,
+    content: weights.content_boost,
+  };
+  const ranked: RankedDocument[] = [];
+
+  index.docs.forEach((doc, id) => {
+    const matches: TermMatch[] = [];
+    for (const pattern of patterns) {
+      let best: TermMatch | null = null;
+      for (const field of INDEX_FIELDS) {
+        const found = fieldText(doc, field).match(pattern);
+        if (found && (!best || boosts[field] > best.score)) {
+          best = {
+            term: pattern.source,
+            field,
+            token: found[0],
+            rule: "regex",
+            strength: 1.0,
+            score: boosts[field],
+          };
+        }
+      }
+      if (best) matches.push(best);
+    }
+    if (!matches.length) return;
+
+    const best = Math.max(...matches.map((m) => m.score));
+    const mean = matches.reduce((sum, m) => sum + m.score, 0) / patterns.length;
+    const score = (1 - weights.coverage_weight) * best + weights.coverage_weight * mean;
+    ranked.push({ doc: id, score: Math.round(score * 1000) / 1000, best, coverage: mean, matches });
+  });
+
+  return ranked;
+}
+
+// Characters of context in a --deep result snippet
+const SNIPPET_LENGTH = 160;
+
+/**
+ * A global pattern for every matched query term in the SKILL.md body: the
+ * --regex patterns themselves, or whole words — the matched token where the
+ * body was the term's best field, the term as typed where another field
+ * scored higher. Null when nothing matched in the body.
+ */
+function contentPattern(matches: TermMatch[]): RegExp | null {
+  if (!matches.some((m) => m.field === "content")) return null;
+  if (matches.some((m) => m.rule === "regex")) {
+    return new RegExp(matches.map((m) => `(?:${m.term})`).join("|"), "gi");
+  }
+  // Tokens are letters and digits only, so they need no escaping
+  const words = matches
+    .map((m) => tokenize(m.field === "content" ? m.token : m.term.replace(/^[a-z]+:/, "")))
+    .filter((tokens) => tokens.length)
+    .map((tokens) => tokens.join("[^\\p{L}\\p{N}]+"));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${[...new Set(words)].join("|")})(?![\\p{L}\\p{N}])`, "giu");
+}
+
+/**
+ * The passage of `text` around the first match of the global `pattern`, with
+ * every match in **bold**. Null if it doesn't occur.
+ */
+function matchSnippet(text: string, pattern: RegExp): string | null {
+  const flat = text.replace(/\s+/g, " ").trim();
+  pattern.lastIndex = 0;
+  const first = pattern.exec(flat);
+  if (!first?.[0]) return null;
+
+  // Start a third of the way back, on a word boundary
+  let start = Math.max(0, first.index - Math.floor(SNIPPET_LENGTH / 3));
+  const space = flat.indexOf(" ", start);
+  if (start > 0 && space !== -1 && space < first.index) start = space + 1;
+  let end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  const lastSpace = flat.lastIndexOf(" ", end);
+  if (end < flat.length && lastSpace > first.index + first[0].length) end = lastSpace;
+
+  const passage = flat.slice(start, end).replace(pattern, (match) => (match ? `**${match}**` : match));
+  return `${start > 0 ? "…" : ""}${passage}${end < flat.length ? "…" : ""}`;
+}
+
+function compareResults(a: SkillResult, b: SkillResult): number {
+  if (b.score !== a.score) return b.score - a.score;
+  if (a.name !== b.name) return a.name < b.name ? -1 : 1;
+  return a.source < b.source ? -1 : a.source > b.source ? 1 : 0;
+}
+
+// --- Tree API fallback ---
+
+/** Recursive tree listing; warns when it is still incomplete after paging or walking subtrees. */
+async function getRepoTree(provider: GitProvider, repo: string, ref: string): Promise<RepoTree> {
+  const result = await provider.tree(repo, ref);
+  if (result.truncated) {
+    console.error(JSON.stringify({ warning: `Tree for ${repo} was truncated; some skills may be missing` }));
+  }
+  return result;
+}
+
+function findSkillDirs(tree: TreeItem[]): Map<string, string> {
+  const skills = new Map<string, string>();
+  for (const item of tree) {
+    const p = item.path;
+    if (p.toUpperCase().endsWith("/SKILL.MD") && item.type === "blob") {
+      const dirPath = p.slice(0, p.lastIndexOf("/"));
+      const name = dirPath.includes("/")
+        ? dirPath.slice(dirPath.lastIndexOf("/") + 1)
+        : dirPath;
+      skills.set(name, dirPath);
+    } else if (p.toUpperCase() === "SKILL.MD" && item.type === "blob") {
+      skills.set("(root)", "");
+    }
+  }
+  return skills;
+}
+
+/**
+ * The frontmatter block of a SKILL.md as YAML. Frontmatter that isn't valid
+ * YAML (often an unquoted `: ` inside a description) is read line by line as
+ * `key: value` pairs instead. Null when there is no frontmatter.
+ */
+function parseFrontmatter(raw: string): Record<string, unknown> | null {
+  const m = raw.match(/^---\s*\r?\n([\s\S]*?)\r?\n---/);
+  if (!m) return null;
+  try {
+    const data = parseYAML(m[1]);
+    if (data && typeof data === "object" && !Array.isArray(data)) return data;
+  } catch {
+    // Fall through to the line-based reading
+  }
+  const data: Record<string, unknown> = {};
+  for (const line of m[1].split(/\r?\n/)) {
+    const kv = line.match(/^([\w-]+):\s*(.*?)\s*$/);
+    if (kv) data[kv[1]] = kv[2].replace(/^["']|["']$/g, "");
+  }
+  return data;
+}
+
+/** A SKILL.md without its frontmatter. */
+function skillBody(raw: string): string {
+  return raw.replace(/^---\s*\r?\n[\s\S]*?\r?\n---[^\n]*\n?/, "").trim();
+}
+
+/**
+ * List-valued frontmatter: a YAML list, or a string separated by commas or
+ * spaces (spaces inside `Bash(git add:*)` don't split). Mappings such as
+ * `requires: {mcp: [github]}` become `mcp:github`.
+ */
+function frontmatterList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (Array.isArray(value)) return value.flatMap((v) => frontmatterList(v) ?? []);
+  if (typeof value === "object") {
+    return Object.entries(value).flatMap(([key, v]) => {
+      const items = frontmatterList(v);
+      return items?.length ? items.map((item) => `${key}:${item}`) : [key];
+    });
+  }
+  return String(value)
+    .split(/,\s*|\s+(?![^(]*\))/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function skillMetadata(raw: string): SkillMetadata | null {
+  const data = parseFrontmatter(raw);
+  if (!data) return null;
+  const text = (v: unknown) =>
+    typeof v === "string" || typeof v === "number" ? String(v).trim() || undefined : undefined;
+  const flag = (v: unknown) => (typeof v === "boolean" ? v : v === "true" ? true : v === "false" ? false : undefined);
+  const metadata: SkillMetadata = {
+    name: text(data.name),
+    description: text(data.description),
+    "allowed-tools": frontmatterList(data["allowed-tools"]),
+    "user-invocable": flag(data["user-invocable"]),
+    "disable-model-invocation": flag(data["disable-model-invocation"]),
+    "argument-hint": text(data["argument-hint"]),
+    requires: frontmatterList(data.requires),
+    license: text(data.license),
+  };
+  return Object.fromEntries(Object.entries(metadata).filter(([, v]) => v !== undefined));
+}
+
+function extractDescription(raw: string): string {
+  return skillMetadata(raw)?.description ?? "";
+}
+
+function treeEntries(
+  provider: GitProvider,
+  repo: string,
+  branch: string,
+  tree: TreeItem[]
+): SkillEntry[] {
+  const entries: SkillEntry[] = [];
+
+  for (const [name, path] of findSkillDirs(tree)) {
+    if (name.startsWith(".") || name === "template" || name === "template-skill")
+      continue;
+
+    entries.push({
+      name,
+      description: "",
+      category: "",
+      url: provider.webUrl(repo, branch, path),
+      source: repo,
+      raw_url: provider.rawUrl(repo, branch, path ? `${path}/SKILL.md` : "SKILL.md"),
+      branch,
+      path,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Read each result's SKILL.md frontmatter into `metadata`, filling in the
+ * description when the entry had none (Tree API entries never do). README
+ * results are resolved to their SKILL.md first.
+ */
+async function loadSkillMetadata(results: [SkillResult, SearchDocument][]): Promise<void> {
+  const pending = results.filter(([r]) => !r.metadata && !r.not_skill);
+  await resolveReadmeResults(pending.filter(([, doc]) => doc.format === "readme").map(([r]) => r));
+  await mapLimit(
+    pending.filter(([, doc]) => doc.format !== "readme"),
+    MAX_CONCURRENT_REQUESTS,
+    ([r, doc]) =>
+      withFetchScope(doc.registry.id, async () => {
+        const content = await providerFor(doc.registry).readFile(
+          r.source,
+          r.branch,
+          joinRepoPath(r.path, "SKILL.md")
+        );
+        if (content) applySkillFile(r, content);
+      })
+  );
+}
+
+/**
+ * --deep: read the SKILL.md behind every tree and manifest document, so its
+ * body is indexed as `content` and its frontmatter description fills in a
+ * missing one. Files come through the HTTP cache like any other.
+ */
+async function loadSkillContent(docs: SearchDocument[]): Promise<void> {
+  await mapLimit(
+    docs.filter((doc) => doc.format !== "readme"),
+    MAX_CONCURRENT_REQUESTS,
+    (doc) =>
+      withFetchScope(doc.registry.id, async () => {
+        const { entry } = doc;
+        const content = await providerFor(doc.registry).readFile(
+          entry.source,
+          entry.branch ?? doc.branch,
+          joinRepoPath(entry.path ?? "", "SKILL.md")
+        );
+        if (!content) return;
+        doc.content = skillBody(content);
+        doc.metadata = skillMetadata(content) ?? {};
+        if (!entry.description && doc.metadata.description) {
+          doc.entry = { ...entry, description: doc.metadata.description };
+        }
+      })
+  );
+}
+
+function applySkillFile(r: SkillResult, content: string): void {
+  r.metadata = skillMetadata(content) ?? {};
+  if (!r.description && r.metadata.description) r.description = r.metadata.description;
+}
+
+/** Tree API entries without a description get one from SKILL.md, up to this many per registry. */
+const MAX_TREE_DESCRIPTIONS = 10;
+
+function hasMetadataFilters(args: CLIArgs): boolean {
+  return Boolean(args.tools.length || args.license || args.noRequires || args.userInvocable || args.modelInvocable);
+}
+
+/**
+ * Whether SKILL.md frontmatter passes the metadata filters. `--tools` needs
+ * every tool in `allowed-tools` (`Bash(git:*)` counts as Bash); results
+ * without a SKILL.md never pass.
+ */
+function metadataAllows(metadata: SkillMetadata | undefined, args: CLIArgs): boolean {
+  if (!metadata) return false;
+  const allowed = (metadata["allowed-tools"] ?? []).map((t) => t.replace(/\(.*$/, "").toLowerCase());
+  if (!args.tools.every((t) => allowed.includes(t.toLowerCase()))) return false;
+  if (args.license && !metadata.license?.toLowerCase().startsWith(args.license.toLowerCase())) return false;
+  if (args.noRequires && metadata.requires?.length) return false;
+  if (args.userInvocable && metadata["user-invocable"] === false) return false;
+  if (args.modelInvocable && metadata["disable-model-invocation"] === true) return false;
+  return true;
+}
+
+// --- Skill resolution ---
+
+/**
+ * Repo, ref and directory a link points at, on github.com (web or raw URL)
+ * or a configured registry host. `.md` file links resolve to their
+ * directory. Null for links elsewhere.
+ */
+function parseLink(
+  url: string
+): { provider: GitProvider; repo: string; ref: string | null; path: string } | null {
+  const clean = url.split(/[?#]/)[0];
+  const raw = clean.match(/^https:\/\/raw\.githubusercontent\.com\/([^/]+\/[^/]+)\/([^/]+)\/(.*)$/);
+  let provider: GitProvider | null = null;
+  let parsed: { repo: string; ref: string | null; path: string } | null = null;
+  if (raw) {
+    provider = githubProvider();
+    parsed = { repo: raw[1], ref: raw[2], path: raw[3] };
+  } else {
+    const web = clean.match(/^(https?:\/\/[^/]+)\/(.+)$/);
+    provider = web && providerForOrigin(web[1]);
+    parsed = web && provider ? provider.parseWebPath(web[2]) : null;
+  }
+  if (!provider || !parsed) return null;
+
+  let path = parsed.path.replace(/\/+$/, "");
+  if (/\.(md|markdown)$/i.test(path)) path = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+  return { provider, repo: parsed.repo, ref: parsed.ref, path };
+}
+
+/** parseLink, with the repo's default branch when the link names no ref. */
+async function linkLocation(
+  url: string
+): Promise<{ provider: GitProvider; repo: string; ref: string; path: string } | null> {
+  const location = parseLink(url);
+  if (!location) return null;
+  return { ...location, ref: location.ref ?? (await location.provider.defaultBranch(location.repo)) };
+}
+
+/**
+ * Key shared by every listing of the same skill: host, repo and directory for
+ * links into a git repository (whatever the ref), otherwise the normalized
+ * name and URL.
+ */
+function skillIdentity(entry: SkillEntry): string {
+  const location = parseLink(entry.url);
+  if (location) {
+    return `${location.provider.baseUrl}/${location.repo}/${location.path}`.toLowerCase();
+  }
+  const url = entry.url
+    .split(/[?#]/)[0]
+    .replace(/^[a-z]+:\/\/(www\.)?/i, "")
+    .replace(/\/+$/, "");
+  return `${tokenize(entry.name).join("-")} ${url}`.toLowerCase();
+}
+
+/**
+ * Pin README results to the repo, branch and directory of their SKILL.md, so
+ * `raw_url` can be downloaded directly. Links to other sites, or to pages
+ * without a SKILL.md (blogs, videos, whole repos), get a `not_skill` reason.
+ * Offline, links missing from the cache are left as they are.
+ */
+async function resolveReadmeResults(results: SkillResult[]): Promise<void> {
+  await mapLimit(results, MAX_CONCURRENT_REQUESTS, async (r) => {
+    // Local and git-remote registries link into themselves
+    if (!/^https?:\/\//.test(r.url)) return;
+    const location = await linkLocation(r.url);
+    if (!location) {
+      r.not_skill = "not a link to a git repository";
+      return;
+    }
+    const { provider, repo, ref, path } = location;
+    const skillFile = joinRepoPath(path, "SKILL.md");
+    const content = await provider.readFile(repo, ref, skillFile);
+    if (content === null) {
+      if (!cacheSettings.offline) r.not_skill = `no SKILL.md in ${provider.webUrl(repo, ref, path)}`;
+      return;
+    }
+    applySkillFile(r, content);
+    r.repo = repo;
+    r.url = provider.webUrl(repo, ref, path);
+    r.raw_url = provider.rawUrl(repo, ref, skillFile);
+    r.branch = ref;
+    r.path = path;
+  });
+}
+
+// --- Plugin marketplaces ---
+
+const MARKETPLACE_PATH = ".claude-plugin/marketplace.json";
+
+/** Join repo-relative paths, dropping `./`, empty segments and trailing slashes. */
+function joinRepoPath(...parts: string[]): string {
+  return parts
+    .flatMap((p) => p.split("/"))
+    .filter((seg) => seg && seg !== ".")
+    .join("/");
+}
+
+/**
+ * Where a plugin's files live: a directory in the marketplace repo, or
+ * another repository (`github` source or a git `url`).
+ */
+function resolvePluginSource(
+  plugin: MarketplacePlugin,
+  manifest: MarketplaceManifest,
+  registry: Registry,
+  branch: string
+): { provider: GitProvider; repo: string; ref: string | null; dir: string } | null {
+  const source = plugin.source ?? plugin.name;
+  if (typeof source === "string") {
+    // pluginRoot only applies to bare names, not ./relative paths
+    const root = source.startsWith("./") ? "" : manifest.metadata?.pluginRoot ?? "";
+    return { provider: providerFor(registry), repo: registry.repo, ref: branch, dir: joinRepoPath(root, source) };
+  }
+
+  if (source.source === "github" && source.repo) {
+    return { provider: providerFor(), repo: source.repo, ref: source.ref ?? null, dir: joinRepoPath(source.path ?? "") };
+  }
+  if (source.source === "url" && source.url) {
+    const web = source.url.match(/^(https?:\/\/[^/]+)\/(.+?)(?:\.git)?\/?$/);
+    const host = web && providerForOrigin(web[1]);
+    const parsed = web && host?.parseWebPath(web[2]);
+    if (host && parsed) {
+      return { provider: host, repo: parsed.repo, ref: source.ref ?? parsed.ref, dir: joinRepoPath(source.path ?? parsed.path) };
+    }
+    const remote = registryLocation({ git: source.url });
+    if (typeof remote === "string") return null;
+    return { provider: providerFor(remote.host), repo: remote.repo, ref: source.ref ?? null, dir: joinRepoPath(source.path ?? "") };
+  }
+  return null;
+}
+
+/**
+ * Skill entries from a plugin marketplace manifest. Plugins that list their
+ * skills are resolved without API calls; otherwise the plugin repository's
+ * tree is searched for SKILL.md under the plugin directory. Plugins with no
+ * skills are listed as a single entry pointing at the plugin.
+ */
+async function parseMarketplace(
+  manifest: MarketplaceManifest,
+  registry: Registry,
+  branch: string
+): Promise<SkillEntry[]> {
+  const trees = new Map<string, Promise<RepoTree>>();
+  const entries: SkillEntry[] = [];
+
+  for (const plugin of manifest.plugins ?? []) {
+    if (!plugin?.name) continue;
+    const location = resolvePluginSource(plugin, manifest, registry, branch);
+    if (!location) continue;
+
+    const { provider, repo, dir } = location;
+    const ref = location.ref ?? (await provider.defaultBranch(repo));
+    let skillDirs: string[];
+    if (plugin.skills) {
+      skillDirs = [plugin.skills].flat().map((p) => joinRepoPath(dir, p));
+    } else {
+      const key = `${provider.baseUrl} ${repo} ${ref}`;
+      if (!trees.has(key)) trees.set(key, getRepoTree(provider, repo, ref));
+      const { tree } = await trees.get(key)!;
+      const prefix = dir ? `${dir}/` : "";
+      skillDirs = [...findSkillDirs(tree.filter((item) => item.path.startsWith(prefix))).values()]
+        .filter((path) => path === dir || path.startsWith(joinRepoPath(dir, "skills") + "/"));
+    }
+
+    const common = {
+      description: plugin.description ?? "",
+      category: plugin.category ?? plugin.name,
+      source: repo,
+      branch: ref,
+      plugin: plugin.name,
+      version: plugin.version ?? manifest.metadata?.version,
+    };
+    if (!skillDirs.length) {
+      entries.push({
+        ...common,
+        name: plugin.name,
+        url: provider.webUrl(repo, ref, dir),
+        raw_url: provider.rawUrl(repo, ref, joinRepoPath(dir, ".claude-plugin/plugin.json")),
+        path: dir,
       });
       continue;
     }
-
-    // Format 1b: List with link, no description — `- [name](url)`
-    const listLinkOnlyMatch = line.match(
-      /^[\s]*[-*]\s+\[([^\]]+)\]\(([^)]+)\)\s*$/
-    );
-    if (listLinkOnlyMatch) {
-      const href = listLinkOnlyMatch[2].trim();
-      if (href.startsWith("#")) continue; // skip anchor-only links (TOC entries)
+    for (const path of skillDirs) {
       entries.push({
-        name: listLinkOnlyMatch[1].trim(),
-        url: resolveUrl(href, repoSlug),
-        description: "",
-        category: currentCategory,
-        source: repoSlug,
+        ...common,
+        name: path === dir ? plugin.name : basename(path),
+        url: provider.webUrl(repo, ref, path),
+        raw_url: provider.rawUrl(repo, ref, joinRepoPath(path, "SKILL.md")),
+        path,
+      });
+    }
+  }
+
+  return entries;
+}
+
+// --- Registry catalogs ---
+
+/** README file names tried in order on each branch. */
+const README_FILES = ["README.md", "readme.md", "Readme.md", "README.markdown", "docs/README.md"];
+
+/** Linked markdown files that are never skill indexes. */
+const NON_INDEX_PAGE =
+  /^(skill|contributing|code_of_conduct|changelog|license|security|pull_request_template)\.(md|markdown)$/i;
+
+const DEFAULT_CRAWL_DEPTH = 1;
+const MAX_CRAWL_PAGES = 25;
+
+/**
+ * In-repo markdown pages linked from a page, by repo path, with the URLs
+ * parseReadme resolves those links to.
+ */
+function markdownPageLinks(
+  content: string,
+  repo: string,
+  provider: GitProvider,
+  branch: string,
+  dir: string
+): Map<string, Set<string>> {
+  const links = new Map<string, Set<string>>();
+  for (const match of content.matchAll(/\]\(([^)\s]+)\)/g)) {
+    const href = match[1].split("#")[0];
+    if (!href) continue;
+    let path: string | null;
+    if (/^https?:\/\//.test(href)) {
+      // Absolute links count when they point into this repo on the same branch
+      const prefix = `${provider.baseUrl}/`;
+      const location = href.startsWith(prefix) ? provider.parseWebPath(href.slice(prefix.length)) : null;
+      path = location?.repo === repo && location.ref === branch ? location.path : null;
+    } else {
+      path = resolveRepoPath(dir, href);
+    }
+    if (!path || !/\.(md|markdown)$/i.test(path) || NON_INDEX_PAGE.test(basename(path))) continue;
+    if (!links.has(path)) links.set(path, new Set());
+    links.get(path)!.add(resolveUrl(href, repo, provider, branch, dir));
+  }
+  return links;
+}
+
+/** A page's first `#` heading, else its file name. */
+function pageTitle(content: string, path: string): string {
+  const heading = content.match(/^#\s+(.+)$/m)?.[1];
+  return heading ? stripLinks(heading).replace(/[*_`]/g, "") : basename(path).replace(/\.(md|markdown)$/i, "");
+}
+
+/**
+ * Parse a README and the in-repo markdown pages it links to, up to
+ * `parser.depth` links away. Entries from a linked page are categorized by
+ * the page's title, and the link to the page itself is not kept as an entry.
+ */
+async function crawlReadme(
+  registry: Registry,
+  branch: string,
+  readme: { path: string; content: string },
+  trace?: RegistryTrace
+): Promise<SkillEntry[]> {
+  const provider = providerFor(registry);
+  const rules = registry.parser ?? {};
+  const maxDepth = rules.depth ?? DEFAULT_CRAWL_DEPTH;
+  const visited = new Set([readme.path]);
+
+  const crawl = async (path: string, content: string, depth: number): Promise<SkillEntry[]> => {
+    const dir = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+    let entries = parseReadme(content, registry.repo, { formats: trace?.formats, provider, rules, branch, dir });
+    if (depth > 0) {
+      const category = pageTitle(content, path);
+      entries = entries.map((e) => ({ ...e, category }));
+    }
+    if (depth >= maxDepth) return entries;
+
+    for (const [page, urls] of markdownPageLinks(content, registry.repo, provider, branch, dir)) {
+      // The README counts toward the page limit
+      if (visited.has(page) || visited.size >= MAX_CRAWL_PAGES) continue;
+      visited.add(page);
+      const started = Date.now();
+      const pageContent = await provider.readFile(registry.repo, branch, page);
+      const pageEntries = pageContent ? await crawl(page, pageContent, depth + 1) : [];
+      trace?.pages.push({
+        url: provider.rawUrl(registry.repo, branch, page),
+        branch,
+        found: pageContent !== null,
+        entries: pageEntries.length,
+        ms: Date.now() - started,
+      });
+      // A linked page without entries may itself be a skill (e.g. its README)
+      if (!pageEntries.length) continue;
+      entries = entries.filter((e) => !urls.has(e.url.split("#")[0]));
+      entries.push(...pageEntries);
+    }
+    return entries;
+  };
+
+  return crawl(readme.path, readme.content, 0);
+}
+
+/**
+ * Download and parse a registry's skill list: a plugin marketplace manifest
+ * when the repo has one, README entries when the README parses, otherwise
+ * SKILL.md directories from the Tree API. A `parser.format` rule pins one of
+ * these sources. Returns null when no source is reachable.
+ */
+async function fetchRegistryCatalog(
+  registry: Registry,
+  trace?: RegistryTrace
+): Promise<RegistryCatalog | null> {
+  const provider = providerFor(registry);
+  const rules = registry.parser ?? {};
+  const readmeFormat = rules.format === "list" || rules.format === "table";
+  // main and master stay as guesses for when the default branch lookup fails
+  const defaultBranch = await provider.defaultBranch(registry.repo);
+  const branches =
+    provider.type === "local" || provider.type === "git"
+      ? [defaultBranch]
+      : [...new Set([defaultBranch, "main", "master"])];
+
+  for (const branch of rules.format === "tree" ? [] : branches) {
+    if (readmeFormat) break;
+    const manifestStarted = Date.now();
+    const manifestContent = await provider.readFile(registry.repo, branch, MARKETPLACE_PATH);
+    let manifest: MarketplaceManifest | null = null;
+    if (manifestContent) {
+      try {
+        manifest = JSON.parse(manifestContent);
+      } catch (e) {
+        console.error(
+          JSON.stringify({ warning: `Invalid ${MARKETPLACE_PATH} in ${registry.repo}: ${(e as Error).message}` })
+        );
+      }
+    }
+    const manifestEntries = manifest ? await parseMarketplace(manifest, registry, branch) : [];
+    trace?.manifest.push({
+      url: provider.rawUrl(registry.repo, branch, MARKETPLACE_PATH),
+      branch,
+      found: manifestContent !== null,
+      entries: manifestEntries.length,
+      ms: Date.now() - manifestStarted,
+    });
+    if (manifestEntries.length) {
+      return { branch, entries: manifestEntries, fallback: false, format: "manifest" };
+    }
+    if (manifestContent) break;
+  }
+  if (rules.format === "manifest") return null;
+
+  readmes: for (const branch of rules.format === "tree" ? [] : branches) {
+    for (const path of README_FILES) {
+      const started = Date.now();
+      const readmeContent = await provider.readFile(registry.repo, branch, path);
+      const entries = readmeContent
+        ? await crawlReadme(registry, branch, { path, content: readmeContent }, trace)
+        : [];
+      trace?.readme.push({
+        url: provider.rawUrl(registry.repo, branch, path),
+        branch,
+        found: readmeContent !== null,
+        entries: entries.length,
+        ms: Date.now() - started,
+      });
+      if (!readmeContent) continue;
+
+      // If README parsed but yielded no entries, fallback to Tree API
+      if (entries.length === 0) break readmes;
+      return { branch, entries, fallback: false, format: "readme" };
+    }
+  }
+  if (readmeFormat) return null;
+
+  const started = Date.now();
+  const { tree, truncated } = await getRepoTree(provider, registry.repo, defaultBranch);
+  const entries = treeEntries(provider, registry.repo, defaultBranch, tree).filter((e) =>
+    treePathAllowed(e.path ?? "", rules)
+  );
+  if (trace) {
+    trace.tree = {
+      branch: defaultBranch,
+      items: tree.length,
+      entries: entries.length,
+      truncated,
+      ms: Date.now() - started,
+    };
+  }
+  if (!tree.length) return null;
+
+  return { branch: defaultBranch, entries, fallback: true, format: "tree" };
+}
+
+/**
+ * Registry catalog from the disk cache when fresh (or in offline mode),
+ * otherwise re-fetched. A stale catalog is kept if the registry is unreachable.
+ */
+async function loadRegistryCatalog(
+  registry: Registry
+): Promise<CacheEntry<RegistryCatalog> | null> {
+  return withFetchScope(registry.id, () => loadCatalogEntry(registry));
+}
+
+async function loadCatalogEntry(
+  registry: Registry
+): Promise<CacheEntry<RegistryCatalog> | null> {
+  // Parser rules are part of the key so editing them takes effect at once
+  const rules = registry.parser ? ` ${JSON.stringify(registry.parser)}` : "";
+  const key = `catalog:${providerFor(registry).webUrl(registry.repo)}${rules}`;
+  // Local directories are cheap to rescan and should reflect edits immediately
+  if (registry.provider === "local") {
+    const catalog = await fetchRegistryCatalog(registry);
+    return catalog && { key, fetched_at: Date.now(), data: catalog };
+  }
+  const cached = readCache<RegistryCatalog>(key);
+  if (cached && (cacheSettings.offline || isFresh(cached))) return cached;
+  if (cacheSettings.offline) return null;
+
+  const catalog = await fetchRegistryCatalog(registry);
+  if (!catalog) return cached;
+  return writeCache(key, catalog);
+}
+
+function cacheStatus(
+  registry: Registry,
+  entry: CacheEntry<RegistryCatalog> | null
+): CacheStatus {
+  if (!entry) {
+    return { registry: registry.id, fetched_at: null, age_seconds: null, stale: true };
+  }
+  return {
+    registry: registry.id,
+    fetched_at: new Date(entry.fetched_at).toISOString(),
+    age_seconds: Math.round((Date.now() - entry.fetched_at) / 1000),
+    stale: Date.now() - entry.fetched_at >= cacheSettings.ttl * 1000,
+  };
+}
+
+/** Registries whose requests failed in this run, and what that cost. */
+function registryErrors(
+  registries: Registry[],
+  catalogs: (CacheEntry<RegistryCatalog> | null)[]
+): RegistryError[] {
+  return registries.flatMap((registry, i): RegistryError[] => {
+    const failures = fetchFailures.get(registry.id) ?? [];
+    const catalog = catalogs[i];
+    if (catalog && !failures.length) return [];
+    const first = failures[0];
+    return [{
+      registry: registry.id,
+      status: !catalog ? "unreachable" : cacheStatus(registry, catalog).stale ? "stale" : "partial",
+      error: first
+        ? `${first.error}: ${first.url}`
+        : cacheSettings.offline ? "Not in the offline cache" : "No skill catalog found",
+      failures,
+    }];
+  });
+}
+
+// --- Search ---
+
+function collectDocuments(
+  registries: Registry[],
+  catalogs: (CacheEntry<RegistryCatalog> | null)[]
+): SearchDocument[] {
+  const docs: SearchDocument[] = [];
+  registries.forEach((registry, i) => {
+    const catalog = catalogs[i]?.data;
+    if (!catalog) return;
+    for (const entry of catalog.entries) {
+      docs.push({
+        entry,
+        registry,
+        branch: catalog.branch,
+        format: catalog.format ?? (catalog.fallback ? "tree" : "readme"),
       });
+    }
+  });
+  return docs;
+}
+
+function toResult(doc: SearchDocument, score: number): SkillResult {
+  const { entry } = doc;
+  if (doc.format !== "readme") {
+    return {
+      name: entry.name,
+      source: entry.source,
+      score,
+      url: entry.url,
+      raw_url: entry.raw_url ?? entry.url,
+      branch: entry.branch ?? doc.branch,
+      path: entry.path ?? "",
+      description: entry.description || undefined,
+      category: entry.category || undefined,
+      plugin: entry.plugin,
+      version: entry.version,
+    };
+  }
+  return {
+    name: entry.name,
+    source: doc.registry.repo,
+    score,
+    url: entry.url,
+    raw_url: entry.url,
+    branch: doc.branch,
+    path: "",
+    description: entry.description || undefined,
+    category: entry.category || undefined,
+  };
+}
+
+// --- Security audit ---
+
+const RISK_LEVELS: RiskLevel[] = ["none", "low", "medium", "high"];
+
+/**
+ * Line patterns checked in every text file; `markdown` rules only in .md
+ * files, `shell` rules only in shell scripts and shell code blocks.
+ */
+const AUDIT_RULES: {
+  rule: string;
+  severity: AuditFinding["severity"];
+  message: string;
+  pattern: RegExp;
+  markdown?: boolean;
+  shell?: boolean;
+}[] = [
+  {
+    rule: "pipe-to-shell",
+    severity: "high",
+    message: "Downloads a script and runs it in one step",
+    pattern: /\b(curl|wget)\b[^|\n]*\|\s*(sudo\s+)?(ba|z|da|k)?sh\b|\b(ba|z)?sh\s+<\(\s*(curl|wget)\b/i,
+  },
+  {
+    rule: "decode-and-run",
+    severity: "high",
+    message: "Decodes data and executes it",
+    pattern: /\bbase64\s+(-d|--decode)\b[^|\n]*\|\s*(sudo\s+)?(ba|z)?sh\b/i,
+  },
+  {
+    rule: "base64-blob",
+    severity: "medium",
+    message: "Long base64-encoded blob",
+    pattern: /[A-Za-z0-9+/]{120,}={0,2}/,
+  },
+  {
+    rule: "network-upload",
+    severity: "medium",
+    message: "Sends data to a remote host",
+    pattern:
+      /\bcurl\b[^\n]*\s(-d|--data(-binary|-raw|-urlencode)?|-F|--form|-T|--upload-file)\b|\bwget\b[^\n]*--post-(data|file)\b|\b(nc|ncat|netcat)\s+(-\w+\s+)*[\w.-]+\s+\d{2,5}\b|\bscp\s+\S+\s+\S+@\S+:/i,
+  },
+  {
+    rule: "sensitive-read",
+    severity: "high",
+    message: "Reads credentials or secrets",
+    pattern:
+      /(~|\$HOME|\$\{HOME\})\/\.(ssh|aws|gnupg|kube|netrc|npmrc|pypirc|docker\/config)|\/etc\/(passwd|shadow)\b|\bsecurity\s+find-(generic|internet)-password\b/i,
+  },
+  {
+    rule: "env-read",
+    severity: "medium",
+    message: "Reads environment variables",
+    pattern: /\bprintenv\b/i,
+  },
+  {
+    rule: "env-exfiltration",
+    severity: "high",
+    message: "Sends environment variables to a remote host or a file",
+    pattern:
+      /\bprintenv\b[^\n]*(\|\s*(curl|wget|nc|ncat|netcat)\b|>>?\s*["']?(?!&|\/dev\/null)[\w~$\/.])|\b(curl|wget|nc|ncat|netcat)\b[^\n]*\bprintenv\b/i,
+  },
+  {
+    rule: "shell-profile",
+    severity: "high",
+    message: "Modifies shell startup files or scheduled jobs",
+    pattern: /(>>?|\btee\b)[^\n]*\.(bashrc|zshrc|bash_profile|zprofile|profile)\b|\bcrontab\s+(-\w\s+)*[^-\s]|\blaunchctl\s+load\b/i,
+  },
+  {
+    rule: "destructive-delete",
+    severity: "high",
+    message: "Recursively deletes outside the skill directory",
+    pattern: /\brm\s+-\w*r\w*\s+["']?(\/|~|\$HOME)\/?\*?["']?(\s|$)/i,
+  },
+  {
+    rule: "write-outside",
+    severity: "medium",
+    message: "Writes outside the skill directory",
+    // A `>` after `=` is an arrow or comparison, not a redirection
+    pattern: /((?<![=>-])>>?|\btee\s+(-a\s+)?)\s*["']?(~|\$HOME|\$\{HOME\}|\/(?!dev\/null|tmp\/))/,
+    shell: true,
+  },
+  {
+    rule: "obfuscation",
+    severity: "medium",
+    message: "Obfuscated code",
+    pattern:
+      /(\\x[0-9a-f]{2}){8,}|String\.fromCharCode\((\s*\d+\s*,){8,}|\bexec\s*\(\s*(compile|__import__|base64|codecs|zlib)\b|\beval\s*\(\s*(atob|unescape|decodeURIComponent|Buffer\.from)\b/i,
+  },
+  {
+    rule: "prompt-injection",
+    severity: "high",
+    message: "Tries to override the agent's other instructions",
+    pattern:
+      /\b(ignore|disregard|forget)\s+(all\s+|any\s+)?(the\s+|your\s+)?(previous|prior|above|earlier|system|other)\s+(instructions|prompts?|rules|guidelines)\b/i,
+    markdown: true,
+  },
+  {
+    rule: "hide-from-user",
+    severity: "high",
+    message: "Asks the agent to act without the user's knowledge",
+    pattern:
+      /\b(do not|don't|never)\s+(tell|inform|mention|reveal|show|notify)\b[^.\n]*\buser\b|\bwithout\s+(telling|asking|informing|notifying)\s+the\s+user\b|\bsilently\s+(run|execute|send|upload|install|download)\b/i,
+    markdown: true,
+  },
+  {
+    rule: "permission-bypass",
+    severity: "high",
+    message: "Tries to disable permission checks",
+    pattern: /--dangerously-skip-permissions\b|\bbypass\s+(the\s+)?(permission|approval|safety|sandbox)/i,
+    markdown: true,
+  },
+];
+
+const BINARY_OK = /\.(png|jpe?g|gif|webp|ico|bmp|pdf|woff2?|ttf|otf)$/i;
+const SHELL_FILE = /\.(sh|bash|zsh)$/i;
+const SHELL_SHEBANG = /^#!.*\b(ba|z|da|k)?sh\b/;
+const SHELL_FENCE = /^(sh|bash|shell|zsh|console|shellsession)$/i;
+
+/**
+ * Scan a downloaded skill directory for risky patterns: broad
+ * `allowed-tools`, piping downloads into a shell, encoded blobs, uploads and
+ * secret reads, writes outside the skill, obfuscation, and prompt-injection
+ * phrasing in markdown.
+ */
+function auditSkillDir(dir: string): SkillAudit {
+  const findings: AuditFinding[] = [];
+  const files = listFiles(dir);
+
+  for (const file of files) {
+    const data = readFileSync(join(dir, file));
+    if (data.subarray(0, 8000).includes(0)) {
+      if (!BINARY_OK.test(file)) {
+        findings.push({ file, line: null, rule: "binary", severity: "low", message: "Binary file; contents not reviewed" });
+      }
       continue;
     }
+    const markdown = /\.(md|markdown)$/i.test(file);
+    const lines = data.toString("utf-8").split(/\r?\n/);
+    const shellFile = SHELL_FILE.test(file) || SHELL_SHEBANG.test(lines[0]);
+    let fence: { marker: string; shell: boolean } | null = null;
+    lines.forEach((text, i) => {
+      const fenceLine = markdown ? text.match(/^\s*(`{3,}|~{3,})\s*([\w-]*)/) : null;
+      if (fenceLine) {
+        if (!fence) fence = { marker: fenceLine[1], shell: SHELL_FENCE.test(fenceLine[2]) };
+        else if (fenceLine[1].startsWith(fence.marker) && !fenceLine[2]) fence = null;
+      }
+      const shell = shellFile || (!fenceLine && fence?.shell === true);
+      for (const rule of AUDIT_RULES) {
+        if (rule.markdown && !markdown) continue;
+        if (rule.shell && !shell) continue;
+        if (!rule.pattern.test(text)) continue;
+        findings.push({
+          file,
+          line: i + 1,
+          rule: rule.rule,
+          severity: rule.severity,
+          message: rule.message,
+          excerpt: truncate(text.trim(), 120),
+        });
+      }
+      if (!markdown && text.length > 1000) {
+        findings.push({ file, line: i + 1, rule: "minified", severity: "low", message: "Minified or packed code" });
+      }
+    });
 
-    // Format 2: Table row — `| [name](url) | description |` or `| name | description | url |`
-    if (line.includes("|") && !line.match(/^[\s]*\|[\s-:|]+\|[\s]*$/)) {
-      const cells = line
-        .split("|")
-        .map((c) => c.trim())
-        .filter(Boolean);
-      if (cells.length >= 2) {
-        // Check if first cell has a link
-        const cellLinkMatch = cells[0].match(/\[([^\]]+)\]\(([^)]+)\)/);
-        if (cellLinkMatch) {
-          const href = cellLinkMatch[2].trim();
-          if (href.startsWith("#")) continue; // skip anchor-only links
-          const desc = cells
-            .slice(1)
-            .map((c) => c.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1").trim())
-            .filter((c) => c && !c.match(/^[\s-:|]+$/))
-            .join(" — ");
-          entries.push({
-            name: cellLinkMatch[1].trim(),
-            url: resolveUrl(href, repoSlug),
-            description: desc,
-            category: currentCategory,
-            source: repoSlug,
-          });
-          continue;
-        }
-        // Check if any cell has a link
-        for (let i = 0; i < cells.length; i++) {
-          const innerMatch = cells[i].match(/\[([^\]]+)\]\(([^)]+)\)/);
-          if (innerMatch) {
-            const href = innerMatch[2].trim();
-            if (href.startsWith("#")) break; // skip anchor-only links
-            const otherCells = cells
-              .filter((_, j) => j !== i)
-              .map((c) => c.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1").trim())
-              .filter((c) => c && !c.match(/^[\s-:|]+$/));
-            entries.push({
-              name: innerMatch[1].trim(),
-              url: resolveUrl(href, repoSlug),
-              description: otherCells.join(" — "),
-              category: currentCategory,
-              source: repoSlug,
-            });
-            break;
-          }
-        }
+    if (file.toUpperCase() === "SKILL.MD") {
+      const tools = skillMetadata(lines.join("\n"))?.["allowed-tools"] ?? [];
+      const line = lines.findIndex((l) => /^allowed-tools\s*:/.test(l));
+      const broad = tools.filter((t) => /^(\*|Bash|Bash\(\*(:\*)?\))$/i.test(t));
+      if (broad.length) {
+        findings.push({
+          file,
+          line: line >= 0 ? line + 1 : null,
+          rule: "broad-allowed-tools",
+          severity: broad.includes("*") ? "high" : "medium",
+          message: `allowed-tools grants unrestricted ${broad.join(", ")} without asking`,
+        });
       }
     }
   }
 
-  return entries;
+  const order = (f: AuditFinding) => RISK_LEVELS.indexOf(f.severity);
+  findings.sort((a, b) => order(b) - order(a) || a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0));
+  return { risk: findings.length ? findings[0].severity : "none", files: files.length, findings };
 }
 
-function resolveUrl(url: string, repoSlug: string): string {
-  if (url.startsWith("http://") || url.startsWith("https://")) return url;
-  // Relative path — make absolute to GitHub
-  const clean = url.replace(/^\.\//, "");
-  return `https://github.com/${repoSlug}/tree/main/${clean}`;
+function auditBlocks(audit: SkillAudit, blockAt: RiskLevel | "off"): boolean {
+  return blockAt !== "off" && audit.risk !== "none" && RISK_LEVELS.indexOf(audit.risk) >= RISK_LEVELS.indexOf(blockAt);
+}
+
+// --- Installation ---
+
+/**
+ * Parse `owner/repo/path/to/skill` (on the host of `registry`, github.com by
+ * default), or a web or raw URL on github.com or a configured registry host
+ * (`https://github.com/owner/repo/tree/branch/path`), into its parts.
+ */
+function parseSkillSpec(spec: string, registry?: Registry): SkillSpec | null {
+  const provider = providerFor(registry);
+  const url = spec.replace(/^github\.com\//i, `${GITHUB_URL}/`);
+  if (/^https?:\/\//i.test(url)) {
+    const link = parseLink(url);
+    return link && { repo: link.repo, path: link.path, branch: link.ref, provider: link.provider };
+  }
+
+  const parts = spec.replace(/^\/+|\/+$/g, "").split("/").filter(Boolean);
+  // Local and git registries hold a single repository: the spec is a path in it
+  if (registry && (provider.type === "local" || provider.type === "git")) {
+    return {
+      repo: registry.repo,
+      path: parts.join("/").replace(/\/?SKILL\.md$/i, ""),
+      branch: null,
+      provider,
+    };
+  }
+  if (parts.length < 2) return null;
+  // GitLab repos may be nested in subgroups, so prefer the registry's own path
+  const repoParts = registry?.repo.split("/") ?? [];
+  if (
+    repoParts.length > 2 &&
+    parts.slice(0, repoParts.length).join("/").toLowerCase() === registry!.repo.toLowerCase()
+  ) {
+    return {
+      repo: registry!.repo,
+      path: parts.slice(repoParts.length).join("/").replace(/\/?SKILL\.md$/i, ""),
+      branch: null,
+      provider,
+    };
+  }
+  return {
+    repo: `${parts[0]}/${parts[1]}`,
+    path: parts.slice(2).join("/").replace(/\/?SKILL\.md$/i, ""),
+    branch: null,
+    provider,
+  };
+}
+
+function skillsDir(location: InstallLocation): string {
+  return location === "global"
+    ? resolve(homedir(), ".claude", "skills")
+    : resolve(process.cwd(), ".claude", "skills");
+}
+
+function listFiles(dir: string, prefix = ""): string[] {
+  const files: string[] = [];
+  for (const name of readdirSync(dir).sort()) {
+    if (name === ".git" || name === PROVENANCE_FILE) continue;
+    const full = join(dir, name);
+    const rel = prefix ? `${prefix}/${name}` : name;
+    if (statSync(full).isDirectory()) files.push(...listFiles(full, rel));
+    else files.push(rel);
+  }
+  return files;
+}
+
+/** Same hash git uses for blobs, so local files compare against tree entries. */
+function gitBlobSha(content: Buffer): string {
+  return createHash("sha1")
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest("hex");
+}
+
+function hashSkillFiles(dir: string): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const rel of listFiles(dir)) {
+    files[rel] = gitBlobSha(readFileSync(join(dir, rel)));
+  }
+  return files;
+}
+
+function contentHash(files: Record<string, string>): string {
+  const hash = createHash("sha256");
+  for (const path of Object.keys(files).sort()) {
+    hash.update(`${path}\0${files[path]}\n`);
+  }
+  return `sha256-${hash.digest("hex")}`;
+}
+
+function readProvenance(dir: string): SkillProvenance | null {
+  const file = join(dir, PROVENANCE_FILE);
+  if (!existsSync(file)) return null;
+  try {
+    return JSON.parse(readFileSync(file, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+function writeProvenance(dir: string, provenance: SkillProvenance): void {
+  writeFileSync(join(dir, PROVENANCE_FILE), JSON.stringify(provenance, null, 2) + "\n");
+}
+
+/** Download every file under the skill directory into `dest`. */
+async function installDirect(spec: SkillSpec, branch: string, dest: string): Promise<string | null> {
+  const { tree } = await getRepoTree(spec.provider, spec.repo, branch);
+  if (!tree.length) return `Could not list files in ${spec.repo}@${branch}`;
+
+  const prefix = spec.path ? `${spec.path}/` : "";
+  const blobs = tree.filter((item) => item.type === "blob" && item.path.startsWith(prefix));
+  if (!blobs.some((item) => item.path.slice(prefix.length).toUpperCase() === "SKILL.MD")) {
+    return `No SKILL.md found at ${spec.repo}/${spec.path}`;
+  }
+
+  for (const item of blobs) {
+    const rel = item.path.slice(prefix.length);
+    const data = await spec.provider.downloadFile(spec.repo, branch, item.path);
+    if (!data) return `Failed to download ${item.path}`;
+    mkdirSync(dirname(join(dest, rel)), { recursive: true });
+    writeFileSync(join(dest, rel), data);
+  }
+  return null;
+}
+
+/**
+ * Sparse-fetch `ref` (branch or commit SHA) and copy the skill directory into
+ * `dest`. Fetching by ref rather than `clone --branch` lets locked installs
+ * check out an exact commit.
+ */
+function installGit(spec: SkillSpec, ref: string, dest: string): string | null {
+  const temp = mkdtempSync(join(tmpdir(), "skill-finder-"));
+  const env = { ...process.env, ...spec.provider.gitEnv(spec.repo) };
+  const git = (...gitArgs: string[]) =>
+    spawnSync("git", ["-C", temp, ...gitArgs], { encoding: "utf-8", env });
+
+  try {
+    const steps: string[][] = [
+      ["init", "--quiet"],
+      // `--` keeps a URL, path or ref from config that starts with `-` from being read as an option
+      ["remote", "add", "--", "origin", spec.provider.cloneUrl(spec.repo)],
+      ...(spec.path ? [["sparse-checkout", "set", "--", spec.path]] : []),
+      ["fetch", "--quiet", "--depth", "1", "--filter=blob:none", "--", "origin", ref],
+      ["checkout", "--quiet", "FETCH_HEAD"],
+    ];
+    for (const step of steps) {
+      const result = git(...step);
+      if (result.status !== 0) {
+        return `git ${step[0]} failed: ${(result.stderr || result.error?.message || "").trim()}`;
+      }
+    }
+
+    const src = spec.path ? join(temp, spec.path) : temp;
+    if (!existsSync(join(src, "SKILL.md"))) {
+      return `No SKILL.md found at ${spec.repo}/${spec.path}`;
+    }
+    cpSync(src, dest, {
+      recursive: true,
+      filter: (from) => basename(from) !== ".git",
+    });
+    return null;
+  } finally {
+    rmSync(temp, { recursive: true, force: true });
+  }
 }
 
-// --- Fuzzy matching ---
+/**
+ * Install a skill into `.claude/skills/<name>` (project) or
+ * `~/.claude/skills/<name>` (global). Files are downloaded and audited in a
+ * temporary directory, then staged next to the target and moved into place.
+ */
+async function installSkill(
+  spec: SkillSpec,
+  method: InstallMethod,
+  location: InstallLocation,
+  force: boolean,
+  registry = "",
+  pinnedCommit: string | null = null
+): Promise<{ skill?: InstalledSkill; error?: string; audit?: SkillAudit }> {
+  const name = basename(spec.path || spec.repo);
+  const target = resolve(skillsDir(location), name);
+
+  if (existsSync(target) && !force) {
+    return { error: `Skill '${name}' is already installed at ${target}. Use --force to overwrite.` };
+  }
+
+  const branch = spec.branch ?? (await spec.provider.defaultBranch(spec.repo));
+  const commit =
+    pinnedCommit ?? (await spec.provider.latestCommit(spec.repo, branch)).data ?? "";
+  // Fetch the exact commit when known so the lockfile matches what was written
+  const ref = commit || branch;
+  const temp = mkdtempSync(join(tmpdir(), "skill-finder-"));
+
+  // A local directory is copied even when git was requested
+  if (spec.provider.type === "local") method = "direct";
+  const error =
+    method === "git"
+      ? installGit(spec, ref, temp)
+      : await installDirect(spec, ref, temp);
+  if (error) {
+    rmSync(temp, { recursive: true, force: true });
+    return { error };
+  }
+
+  // Nothing, not even the skills directory, is created before the audit has passed
+  const audit = auditSkillDir(temp);
+  const blockAt = loadBlockAt();
+  if (auditBlocks(audit, blockAt)) {
+    rmSync(temp, { recursive: true, force: true });
+    return {
+      error: `Security audit rated '${name}' ${audit.risk} risk; installs are blocked at ${blockAt} (security.block_at in config.yaml)`,
+      audit,
+    };
+  }
 
-function levenshteinSimilarity(a: string, b: string): number {
-  if (a === b) return 1.0;
-  const lenA = a.length;
-  const lenB = b.length;
-  if (!lenA || !lenB) return 0;
+  // Copy next to the target first so the final rename stays on one filesystem
+  const staging = `${target}.tmp-${process.pid}`;
+  rmSync(staging, { recursive: true, force: true });
+  mkdirSync(dirname(staging), { recursive: true });
+  cpSync(temp, staging, { recursive: true });
+  rmSync(temp, { recursive: true, force: true });
+  // mkdtemp creates the download directory as 0700 and cpSync keeps that mode
+  chmodSync(staging, 0o755);
 
-  let prev = Array.from({ length: lenB + 1 }, (_, j) => j);
-  let curr = new Array(lenB + 1);
+  const files = hashSkillFiles(staging);
+  writeProvenance(staging, {
+    registry,
+    source: spec.repo,
+    ...hostRef(spec.provider),
+    path: spec.path,
+    branch,
+    commit,
+    installed_at: new Date().toISOString(),
+    method,
+    files,
+  });
 
-  for (let i = 1; i <= lenA; i++) {
-    curr[0] = i;
-    for (let j = 1; j <= lenB; j++) {
-      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
-    }
-    [prev, curr] = [curr, prev];
-  }
+  rmSync(target, { recursive: true, force: true });
+  renameSync(staging, target);
 
-  return 1 - prev[lenB] / Math.max(lenA, lenB);
+  return {
+    skill: {
+      name,
+      source: spec.repo,
+      ...hostRef(spec.provider),
+      path: spec.path,
+      branch,
+      method,
+      location,
+      target,
+      files: listFiles(target),
+      commit,
+      hash: contentHash(files),
+    },
+    audit,
+  };
 }
 
-function fuzzyScore(keywords: string[], name: string, description?: string): number {
-  const nameScore = fuzzyScoreField(keywords, name);
-  if (!description) return nameScore;
+// --- Installed skills ---
 
-  const descScore = fuzzyScoreField(keywords, description) * DESC_WEIGHT;
-  return Math.max(nameScore, descScore);
+function isLocallyModified(dir: string, provenance: SkillProvenance | null): boolean {
+  if (!provenance) return false;
+  const current = hashSkillFiles(dir);
+  const recorded = provenance.files;
+  const paths = new Set([...Object.keys(current), ...Object.keys(recorded)]);
+  for (const p of paths) {
+    if (current[p] !== recorded[p]) return true;
+  }
+  return false;
 }
 
-function fuzzyScoreField(keywords: string[], text: string): number {
-  const textClean = text.toLowerCase().replace(/[-_]/g, " ");
-  const textParts = textClean.split(/\s+/).filter(Boolean);
-  let best = 0;
+function scanInstalledSkills(locations: InstallLocation[]): InstalledSkillInfo[] {
+  const skills: InstalledSkillInfo[] = [];
 
-  for (const rawKw of keywords) {
-    const kw = rawKw.toLowerCase().trim();
-    if (!kw) continue;
+  for (const location of locations) {
+    const root = skillsDir(location);
+    if (!existsSync(root)) continue;
 
-    // Exact full match
-    if (kw === textClean || kw === text.toLowerCase()) return 1.0;
+    for (const name of readdirSync(root).sort()) {
+      const target = join(root, name);
+      if (!statSync(target).isDirectory() || !existsSync(join(target, "SKILL.md"))) continue;
 
-    // Keyword is substring of text
-    if (textClean.includes(kw)) {
-      best = Math.max(best, 0.9);
-      continue;
+      const provenance = readProvenance(target);
+      const description = extractDescription(readFileSync(join(target, "SKILL.md"), "utf-8"));
+      skills.push({
+        name,
+        location,
+        target,
+        description: description || undefined,
+        provenance,
+        modified: isLocallyModified(target, provenance),
+      });
     }
+  }
 
-    // Text is substring of keyword
-    if (kw.includes(textClean)) {
-      best = Math.max(best, 0.7);
-      continue;
-    }
+  return skills;
+}
 
-    // Part-level matching
-    for (const part of textParts) {
-      if (kw === part) {
-        best = Math.max(best, 0.95);
-      } else if (part.includes(kw)) {
-        best = Math.max(best, 0.85);
-      } else if (kw.includes(part)) {
-        best = Math.max(best, 0.65);
-      } else {
-        const sim = levenshteinSimilarity(kw, part);
-        if (sim > 0.6) {
-          best = Math.max(best, sim * 0.75);
-        }
-      }
+/**
+ * Compare an installed skill with upstream: unchanged commit means
+ * up-to-date; otherwise the skill's files in the current tree decide between
+ * outdated and up-to-date, and a missing directory, repo or branch means
+ * orphaned. Upstream that can't be reached is unknown.
+ */
+async function checkSkillUpdate(
+  provenance: SkillProvenance
+): Promise<{ status: UpdateStatus; upstream_commit?: string }> {
+  const provider = providerFor(provenance);
+  const latest = await provider.latestCommit(provenance.source, provenance.branch);
+  if (latest.notFound) return { status: "orphaned" };
+  const upstreamCommit = latest.data;
+  // Local directories have no commits; compare their current files instead
+  if (!upstreamCommit && provider.type !== "local") return { status: "unknown" };
+  if (upstreamCommit && upstreamCommit === provenance.commit) {
+    return { status: "up-to-date", upstream_commit: upstreamCommit };
+  }
+
+  const { tree } = await getRepoTree(provider, provenance.source, upstreamCommit ?? provenance.branch);
+  if (!tree.length) return { status: "unknown", upstream_commit: upstreamCommit ?? undefined };
+
+  const prefix = provenance.path ? `${provenance.path}/` : "";
+  const upstream: Record<string, string> = {};
+  for (const item of tree) {
+    if (item.type === "blob" && item.path.startsWith(prefix)) {
+      upstream[item.path.slice(prefix.length)] = item.sha;
     }
   }
+  if (!Object.keys(upstream).some((p) => p.toUpperCase() === "SKILL.MD")) {
+    return { status: "orphaned", upstream_commit: upstreamCommit ?? undefined };
+  }
 
-  return Math.round(best * 1000) / 1000;
+  const recorded = provenance.files;
+  const paths = new Set([...Object.keys(upstream), ...Object.keys(recorded)]);
+  for (const p of paths) {
+    if (upstream[p] !== recorded[p]) {
+      return { status: "outdated", upstream_commit: upstreamCommit ?? undefined };
+    }
+  }
+  return { status: "up-to-date", upstream_commit: upstreamCommit ?? undefined };
 }
 
-// --- Tree API fallback ---
+// --- Lockfile ---
 
-async function getDefaultBranch(owner: string, repo: string): Promise<string> {
-  const data = await githubFetch<{ default_branch?: string }>(
-    `https://api.github.com/repos/${owner}/${repo}`
-  );
-  return data?.default_branch ?? "main";
+function lockPath(location: InstallLocation): string {
+  return resolve(dirname(skillsDir(location)), "skills.lock");
 }
 
-async function getRepoTree(
-  owner: string,
-  repo: string,
-  branch: string
-): Promise<GitHubTreeItem[]> {
-  const data = await githubFetch<{
-    tree?: GitHubTreeItem[];
-    truncated?: boolean;
-  }>(
-    `https://api.github.com/repos/${owner}/${repo}/git/trees/${branch}?recursive=1`
-  );
-  if (data?.truncated) {
+function readLock(location: InstallLocation): SkillsLock | null {
+  const file = lockPath(location);
+  if (!existsSync(file)) return null;
+  try {
+    const data: SkillsLock = JSON.parse(readFileSync(file, "utf-8"));
+    return { version: 1, skills: data.skills || {} };
+  } catch (e) {
     console.error(
-      JSON.stringify({ warning: `Tree for ${owner}/${repo} was truncated` })
+      JSON.stringify({ warning: `Failed to parse ${file}: ${(e as Error).message}` })
     );
+    return null;
   }
-  return data?.tree ?? [];
 }
 
-function findSkillDirs(tree: GitHubTreeItem[]): Map<string, string> {
-  const skills = new Map<string, string>();
-  for (const item of tree) {
-    const p = item.path;
-    if (p.toUpperCase().endsWith("/SKILL.MD") && item.type === "blob") {
-      const dirPath = p.slice(0, p.lastIndexOf("/"));
-      const name = dirPath.includes("/")
-        ? dirPath.slice(dirPath.lastIndexOf("/") + 1)
-        : dirPath;
-      skills.set(name, dirPath);
-    } else if (p.toUpperCase() === "SKILL.MD" && item.type === "blob") {
-      skills.set("(root)", "");
-    }
-  }
-  return skills;
+function writeLock(location: InstallLocation, lock: SkillsLock): void {
+  // Sorted keys keep diffs of the committed lockfile minimal
+  const skills: Record<string, LockEntry> = {};
+  for (const name of Object.keys(lock.skills).sort()) skills[name] = lock.skills[name];
+  mkdirSync(dirname(lockPath(location)), { recursive: true });
+  writeFileSync(lockPath(location), JSON.stringify({ version: 1, skills }, null, 2) + "\n");
 }
 
-function extractDescription(raw: string): string {
-  const m = raw.match(/^---\s*\n([\s\S]*?)\n---/);
-  if (!m) return "";
-  const dm = m[1].match(/description:\s*["']?(.*?)["']?\s*$/m);
-  return dm ? dm[1].trim().replace(/^["']|["']$/g, "") : "";
+function updateLock(location: InstallLocation, name: string, entry: LockEntry | null): void {
+  const lock = readLock(location) ?? { version: 1, skills: {} };
+  if (entry) lock.skills[name] = entry;
+  else delete lock.skills[name];
+  writeLock(location, lock);
 }
 
-async function searchRepoViaTree(
-  owner: string,
-  repo: string,
-  keywords: string[],
-  fetchDescriptions: boolean,
-  threshold: number
-): Promise<SkillResult[]> {
-  const branch = await getDefaultBranch(owner, repo);
-  const tree = await getRepoTree(owner, repo, branch);
-  if (!tree.length) return [];
-
-  const skillDirs = findSkillDirs(tree);
-  const results: SkillResult[] = [];
-
-  for (const [name, path] of skillDirs) {
-    if (name.startsWith(".") || name === "template" || name === "template-skill")
-      continue;
-
-    const score = fuzzyScore(keywords, name);
-    if (score < threshold) continue;
-
-    const skillUrl = path
-      ? `https://github.com/${owner}/${repo}/tree/${branch}/${path}`
-      : `https://github.com/${owner}/${repo}`;
-    const rawUrl = path
-      ? `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${path}/SKILL.md`
-      : `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/SKILL.md`;
+function lockEntryFor(skill: InstalledSkill, registry: string): LockEntry {
+  return {
+    registry,
+    source: skill.source,
+    ...(skill.provider ? { provider: skill.provider, base_url: skill.base_url } : {}),
+    path: skill.path,
+    branch: skill.branch,
+    commit: skill.commit,
+    hash: skill.hash,
+  };
+}
 
-    results.push({
-      name,
-      source: `${owner}/${repo}`,
-      score,
-      url: skillUrl,
-      raw_url: rawUrl,
-      branch,
-      path,
-    });
-  }
+// --- Output formatting ---
 
-  results.sort((a, b) => b.score - a.score);
-  const top = results.slice(0, MAX_RESULTS);
+const OUTPUT_FORMATS: OutputFormat[] = ["json", "table", "markdown", "ndjson", "csv"];
 
-  if (fetchDescriptions) {
-    await Promise.all(
-      top.slice(0, 10).map(async (r) => {
-        const content = await rawFetch(r.raw_url);
-        if (content) {
-          const desc = extractDescription(content);
-          if (desc) r.description = desc;
-        }
-      })
-    );
-  }
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value).replace(/\s+/g, " ").trim();
+}
 
-  return top;
+function truncate(text: string, maxWidth?: number): string {
+  if (!maxWidth || text.length <= maxWidth) return text;
+  return text.slice(0, maxWidth - 3) + "...";
 }
 
-// --- Main search via README ---
+function columnsFor(table: TabularOutput, format: OutputFormat): OutputColumn[] {
+  return table.columns.filter((c) => !c.only || c.only.includes(format));
+}
 
-async function searchRegistryViaReadme(
-  registry: Registry,
-  keywords: string[],
-  threshold: number
-): Promise<{ results: SkillResult[]; fallback: boolean }> {
-  const [owner, repo] = registry.repo.split("/");
-  const readmeUrls = [
-    `https://raw.githubusercontent.com/${registry.repo}/main/README.md`,
-    `https://raw.githubusercontent.com/${registry.repo}/master/README.md`,
-  ];
-
-  let readmeContent: string | null = null;
-  let usedBranch = "main";
-
-  for (const url of readmeUrls) {
-    readmeContent = await rawFetch(url);
-    if (readmeContent) {
-      usedBranch = url.includes("/main/") ? "main" : "master";
-      break;
-    }
-  }
-
-  if (!readmeContent) {
-    // Fallback to Tree API
-    const treeResults = await searchRepoViaTree(
-      owner,
-      repo,
-      keywords,
-      true,
-      threshold
-    );
-    return { results: treeResults, fallback: true };
-  }
+function renderTable(table: TabularOutput): string {
+  const columns = columnsFor(table, "table");
+  const cells = table.rows.map((row) =>
+    columns.map((c) => truncate(cellText(row[c.key]), c.maxWidth))
+  );
+  const widths = columns.map((c, i) =>
+    Math.max(c.header.length, ...cells.map((row) => row[i].length))
+  );
+  const line = (values: string[]) =>
+    values.map((v, i) => v.padEnd(widths[i])).join("  ").trimEnd();
 
-  const entries = parseReadme(readmeContent, registry.repo);
+  return [
+    line(columns.map((c) => c.header)),
+    line(widths.map((w) => "-".repeat(w))),
+    ...cells.map(line),
+  ].join("\n");
+}
 
-  // If README parsed but yielded no entries, fallback to Tree API
-  if (entries.length === 0) {
-    const treeResults = await searchRepoViaTree(
-      owner,
-      repo,
-      keywords,
-      true,
-      threshold
-    );
-    return { results: treeResults, fallback: true };
-  }
+function renderMarkdown(table: TabularOutput): string {
+  const columns = columnsFor(table, "markdown");
+  const escape = (v: string) => v.replace(/\|/g, "\\|");
+  const row = (values: string[]) => `| ${values.map(escape).join(" | ")} |`;
+  return [
+    row(columns.map((c) => c.header)),
+    `|${columns.map(() => "----").join("|")}|`,
+    ...table.rows.map((r) =>
+      row(columns.map((c) => truncate(cellText(r[c.key]), c.maxWidth)))
+    ),
+  ].join("\n");
+}
 
-  // Score and filter
-  const results: SkillResult[] = [];
-  for (const entry of entries) {
-    const combinedDesc = [entry.description, entry.category]
-      .filter(Boolean)
-      .join(" ");
-    const score = fuzzyScore(keywords, entry.name, combinedDesc);
-    if (score < threshold) continue;
+function renderCSV(table: TabularOutput): string {
+  const columns = columnsFor(table, "csv");
+  const quote = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  return [
+    columns.map((c) => quote(c.key)).join(","),
+    ...table.rows.map((r) => columns.map((c) => quote(cellText(r[c.key]))).join(",")),
+  ].join("\n");
+}
 
-    results.push({
-      name: entry.name,
-      source: registry.repo,
-      score,
-      url: entry.url,
-      raw_url: entry.url,
-      branch: usedBranch,
-      path: "",
-      description: entry.description || undefined,
-      category: entry.category || undefined,
-    });
+/**
+ * Print a command's output. `json` prints the payload unchanged; `ndjson`
+ * prints one record per line; the other formats render the tabular view.
+ */
+function printOutput(
+  format: OutputFormat,
+  payload: unknown,
+  table: TabularOutput,
+  records: unknown[] = table.rows,
+  jsonIndent = 2
+): void {
+  switch (format) {
+    case "ndjson":
+      for (const record of records) console.log(JSON.stringify(record));
+      return;
+    case "csv":
+      console.log(renderCSV(table));
+      return;
+    case "table":
+    case "markdown": {
+      const parts: string[] = [];
+      if (table.title) parts.push(format === "markdown" ? `## ${table.title}` : table.title, "");
+      parts.push(format === "markdown" ? renderMarkdown(table) : renderTable(table));
+      if (table.footer) parts.push("", table.footer);
+      console.log(parts.join("\n"));
+      return;
+    }
+    default:
+      console.log(JSON.stringify(payload, null, jsonIndent || undefined));
   }
-
-  results.sort((a, b) => b.score - a.score);
-  return { results: results.slice(0, MAX_RESULTS), fallback: false };
 }
 
 // --- CLI ---
@@ -657,18 +4454,59 @@ function parseArgs(argv: string[]): CLIArgs {
   let threshold = 0.4;
   let listRegistries = false;
   let showPreferences = false;
+  let showConfig = false;
+  let validateConfig = false;
   let addRegistry: string | null = null;
   let removeRegistry: string | null = null;
   let enableRegistry: string | null = null;
   let disableRegistry: string | null = null;
   let registryName: string | null = null;
+  let offline = false;
+  let refresh = false;
+  let clearCache = false;
+  let install: string | null = null;
+  let installMethod: InstallMethod | null = null;
+  let installLocation: InstallLocation | null = null;
+  let branch: string | null = null;
+  let force = false;
+  let listInstalled = false;
+  let uninstall: string | null = null;
+  let checkUpdates = false;
+  let checkRegistries = false;
+  const registries: string[] = [];
+  let category: string | null = null;
+  let limit = MAX_RESULTS;
+  let offset = 0;
+  let exact = false;
+  let regex = false;
+  let format: OutputFormat = "json";
+  let explain = false;
+  let deep = false;
+  let why: string | null = null;
+  let audit: string | null = null;
+  let show: string | null = null;
+  let maxLines: number | null = null;
+  let metadata = false;
+  const tools: string[] = [];
+  let license: string | null = null;
+  let noRequires = false;
+  let userInvocable = false;
+  let modelInvocable = false;
+  let sync = false;
+  let verify = false;
 
   for (let i = 0; i < argv.length; i++) {
     const arg = argv[i];
     if (arg === "--list-registries") {
       listRegistries = true;
+    } else if (arg === "--check-registries") {
+      checkRegistries = true;
     } else if (arg === "--show-preferences") {
       showPreferences = true;
+    } else if (arg === "--show-config") {
+      showConfig = true;
+    } else if (arg === "--validate-config") {
+      validateConfig = true;
     } else if (arg === "--add-registry" && i + 1 < argv.length) {
       addRegistry = argv[++i];
     } else if (arg === "--remove-registry" && i + 1 < argv.length) {
@@ -683,174 +4521,969 @@ function parseArgs(argv: string[]): CLIArgs {
       descriptions = true;
     } else if (arg === "--threshold" && i + 1 < argv.length) {
       threshold = parseFloat(argv[++i]);
+    } else if (arg === "--offline") {
+      offline = true;
+    } else if (arg === "--refresh") {
+      refresh = true;
+    } else if (arg === "--clear-cache") {
+      clearCache = true;
+    } else if (arg === "--install" && i + 1 < argv.length) {
+      install = argv[++i];
+    } else if (arg === "--method" && i + 1 < argv.length) {
+      installMethod = argv[++i] as InstallMethod;
+    } else if (arg === "--location" && i + 1 < argv.length) {
+      installLocation = argv[++i] as InstallLocation;
+    } else if (arg === "--branch" && i + 1 < argv.length) {
+      branch = argv[++i];
+    } else if (arg === "--force") {
+      force = true;
+    } else if (arg === "--list-installed") {
+      listInstalled = true;
+    } else if (arg === "--uninstall" && i + 1 < argv.length) {
+      uninstall = argv[++i];
+    } else if (arg === "--check-updates") {
+      checkUpdates = true;
+    } else if (arg === "--registry" && i + 1 < argv.length) {
+      registries.push(argv[++i]);
+    } else if (arg === "--category" && i + 1 < argv.length) {
+      category = argv[++i];
+    } else if (arg === "--limit" && i + 1 < argv.length) {
+      limit = Number(argv[++i]);
+    } else if (arg === "--offset" && i + 1 < argv.length) {
+      offset = Number(argv[++i]);
+    } else if (arg === "--exact") {
+      exact = true;
+    } else if (arg === "--regex") {
+      regex = true;
+    } else if (arg === "--format" && i + 1 < argv.length) {
+      format = argv[++i] as OutputFormat;
+    } else if (arg === "--explain") {
+      explain = true;
+    } else if (arg === "--deep") {
+      deep = true;
+    } else if (arg === "--why" && i + 1 < argv.length) {
+      why = argv[++i];
+    } else if (arg === "--audit" && i + 1 < argv.length) {
+      audit = argv[++i];
+    } else if (arg === "--show" && i + 1 < argv.length) {
+      show = argv[++i];
+    } else if (arg === "--max-lines" && i + 1 < argv.length) {
+      maxLines = Number(argv[++i]);
+    } else if (arg === "--metadata") {
+      metadata = true;
+    } else if (arg === "--tools" && i + 1 < argv.length) {
+      tools.push(...argv[++i].split(",").map((t) => t.trim()).filter(Boolean));
+    } else if (arg === "--license" && i + 1 < argv.length) {
+      license = argv[++i];
+    } else if (arg === "--no-requires") {
+      noRequires = true;
+    } else if (arg === "--user-invocable") {
+      userInvocable = true;
+    } else if (arg === "--model-invocable") {
+      modelInvocable = true;
+    } else if (arg === "--sync") {
+      sync = true;
+    } else if (arg === "--verify") {
+      verify = true;
     } else if (!arg.startsWith("--")) {
       keywords.push(arg);
     }
   }
 
-  return {
-    keywords,
-    descriptions,
-    threshold,
-    listRegistries,
-    showPreferences,
-    addRegistry,
-    removeRegistry,
-    enableRegistry,
-    disableRegistry,
-    registryName,
+  return {
+    keywords,
+    descriptions,
+    threshold,
+    listRegistries,
+    showPreferences,
+    showConfig,
+    validateConfig,
+    addRegistry,
+    removeRegistry,
+    enableRegistry,
+    disableRegistry,
+    registryName,
+    offline,
+    refresh,
+    clearCache,
+    install,
+    installMethod,
+    installLocation,
+    branch,
+    force,
+    listInstalled,
+    uninstall,
+    checkUpdates,
+    checkRegistries,
+    registries,
+    category,
+    limit,
+    offset,
+    exact,
+    regex,
+    format,
+    explain,
+    deep,
+    why,
+    audit,
+    show,
+    maxLines,
+    metadata,
+    tools,
+    license,
+    noRequires,
+    userInvocable,
+    modelInvocable,
+    sync,
+    verify,
+  };
+}
+
+// --- Subcommands ---
+
+function cmdListRegistries(format: OutputFormat): void {
+  const registries = loadRegistries();
+  const output = registries.map((r) => ({
+    id: r.id,
+    repo: r.repo,
+    name: r.name,
+    description: r.description,
+    enabled: r.enabled,
+    provider: r.provider ?? "github",
+    base_url: r.base_url,
+  }));
+  printOutput(format, { registries: output }, {
+    columns: [
+      { key: "id", header: "ID" },
+      { key: "repo", header: "Repo" },
+      { key: "provider", header: "Provider" },
+      { key: "name", header: "Name", maxWidth: 40 },
+      { key: "enabled", header: "Enabled" },
+      { key: "description", header: "Description", maxWidth: 50 },
+    ],
+    rows: output,
+  });
+}
+
+function cmdAddRegistry(repo: string, name: string | null): void {
+  if (!repo.includes("/")) {
+    console.log(
+      JSON.stringify({ error: "Registry repo must be in 'owner/repo' format" })
+    );
+    process.exit(1);
+  }
+
+  const existing = findConfiguredRegistry(normalizeGitHubURL(repo));
+  if (existing) {
+    console.log(
+      JSON.stringify({ warning: `Registry '${repo}' already exists`, registry: existing })
+    );
+    return;
+  }
+
+  const doc = readProjectConfig();
+  appendRegistry(doc, name ? { url: repo, name } : { url: repo });
+  writeProjectConfig(doc);
+  console.log(
+    JSON.stringify({
+      success: `Added registry '${repo}' to config.yaml`,
+      registry: findConfiguredRegistry(normalizeGitHubURL(repo)),
+    })
+  );
+}
+
+function cmdRemoveRegistry(idOrRepo: string): void {
+  const registry = findConfiguredRegistry(idOrRepo);
+  const doc = readProjectConfig();
+  const seq = projectRegistries(doc);
+  const index = registry ? projectRegistryIndex(seq, registry) : -1;
+
+  if (!registry || index < 0) {
+    console.log(
+      JSON.stringify({
+        error: registry
+          ? `Registry '${idOrRepo}' is not in config.yaml (declared in ${registryFiles(registry).join(", ")}); use --disable-registry instead`
+          : `Registry '${idOrRepo}' not found`,
+      })
+    );
+    process.exit(1);
+  }
+
+  seq.delete(index);
+  writeProjectConfig(doc);
+
+  // Built-in and user-level registries survive removal from config.yaml
+  const remaining = registryFiles(registry);
+  if (remaining.length) {
+    console.error(
+      JSON.stringify({
+        warning: `Registry '${idOrRepo}' is still declared in ${remaining.join(", ")}; use --disable-registry to turn it off`,
+      })
+    );
+  }
+  console.log(JSON.stringify({ success: `Removed registry '${idOrRepo}' from config.yaml` }));
+}
+
+/** Just enough of `registry` for a config.yaml entry to match it. */
+function registryOverride(registry: Registry): YAMLRegistrySimple {
+  if (registry.provider === "local") return { path: relative(BASE_DIR, registry.base_url ?? "") || "." };
+  if (registry.provider === "git") return { git: registry.base_url };
+  if (!registry.base_url) return { url: registry.repo };
+  return { url: registry.repo, provider: registry.provider, base_url: registry.base_url };
+}
+
+function cmdToggleRegistry(idOrRepo: string, enabled: boolean): void {
+  const registry = findConfiguredRegistry(idOrRepo);
+  if (!registry) {
+    console.log(
+      JSON.stringify({ error: `Registry '${idOrRepo}' not found` })
+    );
+    process.exit(1);
+  }
+
+  const doc = readProjectConfig();
+  const seq = projectRegistries(doc);
+  const item = seq.items[projectRegistryIndex(seq, registry)];
+  if (isMap(item)) {
+    item.set("enabled", enabled);
+  } else {
+    // Declared in another layer: add an entry that only overrides `enabled`
+    appendRegistry(doc, { ...registryOverride(registry), enabled });
+  }
+  writeProjectConfig(doc);
+
+  const effective = loadConfig().values[`registries[${registry.repo}].enabled`];
+  if (effective && effective.value !== enabled) {
+    console.error(
+      JSON.stringify({
+        warning: `config.local.yaml or registries.local.json still sets enabled: ${effective.value} for '${idOrRepo}'`,
+      })
+    );
+  }
+  console.log(
+    JSON.stringify({
+      success: `${enabled ? "Enabled" : "Disabled"} registry '${idOrRepo}'`,
+    })
+  );
+}
+
+/** ID of the configured registry whose repo is `source`, if any. */
+function registryForSource(spec: SkillSpec): string {
+  const match = loadRegistries().find(
+    (r) =>
+      r.repo.toLowerCase() === spec.repo.toLowerCase() &&
+      providerFor(r).baseUrl === spec.provider.baseUrl
+  );
+  return match?.id ?? "";
+}
+
+async function cmdInstall(args: CLIArgs): Promise<void> {
+  const selected = args.registries[0] ? findRegistry(args.registries[0]) : undefined;
+  const spec = parseSkillSpec(args.install ?? "", selected);
+  if (!spec) {
+    console.log(
+      JSON.stringify({
+        error: "Skill must be in 'owner/repo/path/to/skill' format or a URL on github.com or a configured registry host",
+      })
+    );
+    process.exit(1);
+  }
+  if (args.branch) spec.branch = args.branch;
+
+  const prefs = loadPreferences();
+  const method = args.installMethod ?? prefs?.install_method ?? "ask";
+  const location = args.installLocation ?? prefs?.install_location ?? "ask";
+
+  if (!["npx", "direct", "git", "ask"].includes(method)) {
+    console.log(JSON.stringify({ error: `Unknown install method '${method}'` }));
+    process.exit(1);
+  }
+  if (!["project", "global", "ask"].includes(location)) {
+    console.log(JSON.stringify({ error: `Unknown install location '${location}'` }));
+    process.exit(1);
+  }
+  if (method === "ask" || location === "ask") {
+    console.log(
+      JSON.stringify({
+        error: "Installation method and location must be chosen. Pass --method direct|git and --location project|global.",
+        install_method: method,
+        install_location: location,
+      })
+    );
+    process.exit(1);
+  }
+  if (method === "npx") {
+    const skillFlag = spec.path ? ` --skill ${basename(spec.path)}` : "";
+    console.log(
+      JSON.stringify({
+        error: "The 'npx' method is handled by the skills CLI. Run the command below or pass --method direct|git.",
+        command: `npx skills add ${spec.provider.type === "github" ? spec.repo : spec.provider.cloneUrl(spec.repo)}${skillFlag}${location === "global" ? " -g" : ""}`,
+      })
+    );
+    process.exit(1);
+  }
+
+  const registry = selected?.id ?? args.registries[0] ?? registryForSource(spec);
+  const { skill, error, audit } = await installSkill(spec, method, location, args.force, registry);
+  if (!skill) {
+    console.log(JSON.stringify(audit ? { error, audit } : { error }, null, audit ? 2 : undefined));
+    process.exit(1);
+  }
+  updateLock(location, skill.name, lockEntryFor(skill, registry));
+
+  console.log(
+    JSON.stringify({ success: `Installed skill '${skill.name}'`, skill, audit }, null, 2)
+  );
+}
+
+/**
+ * Download a skill to a temporary directory and report the security audit
+ * an install would run. Exits non-zero when the policy would block it.
+ */
+async function cmdAudit(args: CLIArgs): Promise<void> {
+  const selected = args.registries[0] ? findRegistry(args.registries[0]) : undefined;
+  const spec = parseSkillSpec(args.audit ?? "", selected);
+  if (!spec) {
+    console.log(
+      JSON.stringify({
+        error: "Skill must be in 'owner/repo/path/to/skill' format or a URL on github.com or a configured registry host",
+      })
+    );
+    process.exit(1);
+  }
+  if (args.branch) spec.branch = args.branch;
+
+  const branch = spec.branch ?? (await spec.provider.defaultBranch(spec.repo));
+  const temp = mkdtempSync(join(tmpdir(), "skill-finder-"));
+  let audit: SkillAudit | null = null;
+  let error: string | null;
+  try {
+    error = await installDirect(spec, branch, temp);
+    if (!error) audit = auditSkillDir(temp);
+  } finally {
+    rmSync(temp, { recursive: true, force: true });
+  }
+  // Exiting inside the try would skip the cleanup
+  if (!audit) {
+    console.log(JSON.stringify({ error }));
+    process.exit(1);
+  }
+
+  const name = basename(spec.path || spec.repo);
+  const blockAt = loadBlockAt();
+  const blocked = auditBlocks(audit, blockAt);
+  printOutput(
+    args.format,
+    { skill: name, source: spec.repo, path: spec.path, branch, block_at: blockAt, blocked, ...audit },
+    {
+      title: `Security audit: ${name} (risk: ${audit.risk})`,
+      columns: [
+        { key: "severity", header: "Severity" },
+        { key: "file", header: "File", maxWidth: 40 },
+        { key: "line", header: "Line" },
+        { key: "rule", header: "Rule" },
+        { key: "message", header: "Finding", maxWidth: 50 },
+        { key: "excerpt", header: "Excerpt", maxWidth: 60 },
+      ],
+      rows: audit.findings as unknown as Record<string, unknown>[],
+      footer: `${audit.findings.length} findings in ${audit.files} files; ${
+        blocked ? `install blocked (block_at: ${blockAt})` : "install allowed"
+      }`,
+    }
+  );
+  if (blocked) process.exit(1);
+}
+
+/**
+ * Everything needed to judge a skill without opening a browser: frontmatter,
+ * SKILL.md body (first `--max-lines` lines), supporting files with sizes and
+ * the last commit touching the skill. `--format markdown` renders it as a
+ * document.
+ */
+async function cmdShow(args: CLIArgs): Promise<void> {
+  if (args.maxLines !== null && (!Number.isInteger(args.maxLines) || args.maxLines < 1)) {
+    console.log(JSON.stringify({ error: "--max-lines must be a positive integer" }));
+    process.exit(1);
+  }
+  const selected = args.registries[0] ? findRegistry(args.registries[0]) : undefined;
+  const spec = parseSkillSpec(args.show ?? "", selected);
+  if (!spec) {
+    console.log(
+      JSON.stringify({
+        error: "Skill must be in 'owner/repo/path/to/skill' format or a URL on github.com or a configured registry host",
+      })
+    );
+    process.exit(1);
+  }
+  if (args.branch) spec.branch = args.branch;
+
+  const { provider, repo, path } = spec;
+  const branch = spec.branch ?? (await provider.defaultBranch(repo));
+  const skillFile = joinRepoPath(path, "SKILL.md");
+  const [content, { tree }, commit] = await Promise.all([
+    provider.readFile(repo, branch, skillFile),
+    getRepoTree(provider, repo, branch),
+    provider.lastCommit(repo, branch, path),
+  ]);
+  if (content === null) {
+    console.log(JSON.stringify({ error: `No SKILL.md found at ${repo}/${path}` }));
+    process.exit(1);
+  }
+
+  const body = skillBody(content);
+  const lines = body.split("\n");
+  const truncated = args.maxLines !== null && lines.length > args.maxLines;
+  const prefix = path ? `${path}/` : "";
+  const files = tree
+    .filter((item) => item.type === "blob" && item.path.startsWith(prefix) && item.path !== skillFile)
+    .map((item) => ({ path: item.path.slice(prefix.length), size: item.size ?? null }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  const name = basename(path || repo);
+
+  const output = {
+    name,
+    source: repo,
+    ...hostRef(provider),
+    path,
+    branch,
+    url: provider.webUrl(repo, branch, path),
+    raw_url: provider.rawUrl(repo, branch, skillFile),
+    last_commit: commit,
+    frontmatter: parseFrontmatter(content),
+    body: truncated ? lines.slice(0, args.maxLines!).join("\n") : body,
+    body_lines: lines.length,
+    truncated,
+    files,
   };
+
+  if (args.format === "markdown") {
+    console.log(renderShowMarkdown(output));
+    return;
+  }
+  printOutput(args.format, output, {
+    title: `${name} (${output.url})`,
+    columns: [
+      { key: "path", header: "File" },
+      { key: "size", header: "Size" },
+    ],
+    rows: files,
+    footer: commit ? `Last commit ${commit.sha.slice(0, 7)} on ${commit.date}` : undefined,
+  });
 }
 
-// --- Subcommands ---
+function renderShowMarkdown(show: {
+  name: string;
+  url: string;
+  branch: string;
+  last_commit: { sha: string; date: string } | null;
+  frontmatter: Record<string, unknown> | null;
+  body: string;
+  body_lines: number;
+  truncated: boolean;
+  files: { path: string; size: number | null }[];
+}): string {
+  const parts = [`# ${show.name}`, "", `Source: ${show.url} (branch \`${show.branch}\`)`];
+  if (show.last_commit) {
+    parts.push(`Last commit: ${show.last_commit.sha.slice(0, 7)} on ${show.last_commit.date}`);
+  }
+  if (show.frontmatter) {
+    parts.push("", "## Frontmatter", "", "```yaml", stringifyYAML(show.frontmatter).trimEnd(), "```");
+  }
+  parts.push("", "## SKILL.md", "", show.body || "_Empty._");
+  if (show.truncated) parts.push("", `_… truncated, ${show.body_lines} lines in total_`);
+  parts.push("", "## Files", "");
+  if (show.files.length) {
+    parts.push("| File | Size |", "|----|----|", ...show.files.map((f) => `| ${f.path} | ${f.size ?? "-"} |`));
+  } else {
+    parts.push("No supporting files.");
+  }
+  return parts.join("\n");
+}
 
-function cmdListRegistries(): void {
-  const registries = loadRegistries();
-  const output = registries.map((r) => ({
-    id: r.id,
-    repo: r.repo,
-    name: r.name,
-    description: r.description,
-    enabled: r.enabled,
+function installLocations(location: InstallLocation | null): InstallLocation[] {
+  return location && location !== "ask" ? [location] : ["project", "global"];
+}
+
+function cmdListInstalled(args: CLIArgs): void {
+  const skills = scanInstalledSkills(installLocations(args.installLocation)).map((s) => ({
+    name: s.name,
+    location: s.location,
+    target: s.target,
+    description: s.description,
+    managed: s.provenance !== null,
+    source: s.provenance?.source,
+    provider: s.provenance?.provider,
+    path: s.provenance?.path,
+    branch: s.provenance?.branch,
+    commit: s.provenance?.commit,
+    installed_at: s.provenance?.installed_at,
+    modified: s.modified,
   }));
-  console.log(JSON.stringify({ registries: output }, null, 2));
+  console.log(JSON.stringify({ total: skills.length, skills }, null, 2));
 }
 
-function cmdAddRegistry(repo: string, name: string | null): void {
-  if (!repo.includes("/")) {
+function cmdUninstall(name: string, location: InstallLocation | null): void {
+  const matches = scanInstalledSkills(installLocations(location)).filter(
+    (s) => s.name === name
+  );
+
+  if (matches.length === 0) {
+    console.log(JSON.stringify({ error: `Skill '${name}' is not installed` }));
+    process.exit(1);
+  }
+  if (matches.length > 1) {
     console.log(
-      JSON.stringify({ error: "Registry repo must be in 'owner/repo' format" })
+      JSON.stringify({
+        error: `Skill '${name}' is installed in several locations. Pass --location project|global.`,
+        targets: matches.map((s) => s.target),
+      })
     );
     process.exit(1);
   }
 
-  const localRegs = loadLocalRegistries();
-  const id = repo.replace(/\//g, "-").toLowerCase();
+  rmSync(matches[0].target, { recursive: true, force: true });
+  const lock = readLock(matches[0].location);
+  if (lock?.skills[name]) updateLock(matches[0].location, name, null);
+  console.log(
+    JSON.stringify({ success: `Uninstalled skill '${name}'`, target: matches[0].target })
+  );
+}
 
-  // Check if already exists
-  const existing = localRegs.find((r) => r.repo === repo);
-  if (existing) {
-    console.log(
-      JSON.stringify({ warning: `Registry '${repo}' already exists in local config`, registry: existing })
-    );
-    return;
-  }
+async function cmdCheckUpdates(args: CLIArgs): Promise<void> {
+  const installed = scanInstalledSkills(installLocations(args.installLocation));
 
-  const newReg: Registry = {
-    id,
-    repo,
-    name: name || repo,
-    description: "",
-    enabled: true,
-  };
+  const skills = await Promise.all(
+    installed.map(async (s) => {
+      const check: { status: UpdateStatus; upstream_commit?: string } = s.provenance
+        ? await checkSkillUpdate(s.provenance)
+        : { status: "unmanaged" };
+      return {
+        name: s.name,
+        location: s.location,
+        target: s.target,
+        source: s.provenance?.source,
+        path: s.provenance?.path,
+        commit: s.provenance?.commit,
+        upstream_commit: check.upstream_commit,
+        status: check.status,
+        modified: s.modified,
+      };
+    })
+  );
 
-  localRegs.push(newReg);
-  saveLocalRegistries(localRegs);
   console.log(
-    JSON.stringify({ success: `Added registry '${repo}'`, registry: newReg })
+    JSON.stringify(
+      {
+        total: skills.length,
+        outdated: skills.filter((s) => s.status === "outdated").length,
+        orphaned: skills.filter((s) => s.status === "orphaned").length,
+        modified: skills.filter((s) => s.modified).length,
+        skills,
+      },
+      null,
+      2
+    )
   );
 }
 
-function cmdRemoveRegistry(repo: string): void {
-  const localRegs = loadLocalRegistries();
-  const filtered = localRegs.filter((r) => r.repo !== repo && r.id !== repo);
+function lockLocation(args: CLIArgs): InstallLocation {
+  return args.installLocation === "global" ? "global" : "project";
+}
 
-  if (filtered.length === localRegs.length) {
-    console.log(
-      JSON.stringify({ error: `Registry '${repo}' not found in local config` })
-    );
+/** Install missing skills and repair ones whose content differs from the lockfile. */
+async function cmdSync(args: CLIArgs): Promise<void> {
+  const location = lockLocation(args);
+  const lock = readLock(location);
+  if (!lock) {
+    console.log(JSON.stringify({ error: `No lockfile found at ${lockPath(location)}` }));
     process.exit(1);
   }
 
-  saveLocalRegistries(filtered);
-  console.log(JSON.stringify({ success: `Removed registry '${repo}'` }));
-}
+  const prefs = loadPreferences();
+  const method: InstallMethod =
+    args.installMethod === "git" || (!args.installMethod && prefs?.install_method === "git")
+      ? "git"
+      : "direct";
 
-function cmdToggleRegistry(idOrRepo: string, enabled: boolean): void {
-  // First check local registries
-  const localRegs = loadLocalRegistries();
-  const localIdx = localRegs.findIndex(
-    (r) => r.id === idOrRepo || r.repo === idOrRepo
-  );
+  const skills: { name: string; status: string; error?: string }[] = [];
+  for (const [name, entry] of Object.entries(lock.skills)) {
+    const target = resolve(skillsDir(location), name);
+    const installed = existsSync(join(target, "SKILL.md"));
+    if (installed && contentHash(hashSkillFiles(target)) === entry.hash) {
+      skills.push({ name, status: "ok" });
+      continue;
+    }
 
-  if (localIdx >= 0) {
-    localRegs[localIdx].enabled = enabled;
-    saveLocalRegistries(localRegs);
-    console.log(
-      JSON.stringify({
-        success: `${enabled ? "Enabled" : "Disabled"} registry '${idOrRepo}'`,
-      })
+    const { skill, error } = await installSkill(
+      { repo: entry.source, path: entry.path, branch: entry.branch, provider: providerFor(entry) },
+      method,
+      location,
+      true,
+      entry.registry,
+      entry.commit
     );
-    return;
+    if (!skill) {
+      skills.push({ name, status: "failed", error });
+    } else if (skill.hash !== entry.hash) {
+      skills.push({ name, status: "failed", error: `Content hash mismatch after install: ${skill.hash}` });
+    } else {
+      skills.push({ name, status: installed ? "repaired" : "installed" });
+    }
   }
 
-  // Check default registries — create a local override
-  const allRegs = loadRegistries();
-  const defaultReg = allRegs.find(
-    (r) => r.id === idOrRepo || r.repo === idOrRepo
+  const failed = skills.filter((s) => s.status === "failed").length;
+  console.log(
+    JSON.stringify({ lockfile: lockPath(location), total: skills.length, failed, skills }, null, 2)
   );
+  if (failed) process.exit(1);
+}
 
-  if (!defaultReg) {
-    console.log(
-      JSON.stringify({ error: `Registry '${idOrRepo}' not found` })
-    );
+/** Fail when installed content no longer matches the recorded hashes. */
+function cmdVerify(args: CLIArgs): void {
+  const location = lockLocation(args);
+  const lock = readLock(location);
+  if (!lock) {
+    console.log(JSON.stringify({ error: `No lockfile found at ${lockPath(location)}` }));
     process.exit(1);
   }
 
-  // Add override to local config
-  localRegs.push({ ...defaultReg, enabled });
-  saveLocalRegistries(localRegs);
+  const skills = Object.entries(lock.skills).map(([name, entry]) => {
+    const target = resolve(skillsDir(location), name);
+    if (!existsSync(join(target, "SKILL.md"))) return { name, status: "missing" };
+    const hash = contentHash(hashSkillFiles(target));
+    return hash === entry.hash
+      ? { name, status: "ok" }
+      : { name, status: "mismatch", expected: entry.hash, actual: hash };
+  });
+
+  const verified = skills.every((s) => s.status === "ok");
   console.log(
-    JSON.stringify({
-      success: `${enabled ? "Enabled" : "Disabled"} registry '${idOrRepo}'`,
-    })
+    JSON.stringify({ lockfile: lockPath(location), verified, skills }, null, 2)
+  );
+  if (!verified) process.exit(1);
+}
+
+/**
+ * Fetch every selected registry from upstream (bypassing the catalog cache)
+ * and report how its skill list was obtained. Exits non-zero when a registry
+ * is unreachable or yields no skills, so it can run as a scheduled check.
+ */
+async function cmdCheckRegistries(args: CLIArgs): Promise<void> {
+  if (args.offline) {
+    console.log(JSON.stringify({ error: "--check-registries cannot be combined with --offline" }));
+    process.exit(1);
+  }
+
+  const registries = selectRegistries(args.registries);
+  const checked = Date.now();
+  const health = await mapLimit(
+    registries,
+    REGISTRY_CONCURRENCY,
+    async (registry): Promise<RegistryHealth> => {
+      const trace: RegistryTrace = { manifest: [], readme: [], formats: {}, pages: [], tree: null };
+      const started = Date.now();
+      const catalog = await withFetchScope(registry.id, () => fetchRegistryCatalog(registry, trace));
+      const total = Date.now() - started;
+
+      const manifest = trace.manifest.find((p) => p.found && p.entries > 0);
+      const readme = trace.readme.find((p) => p.found && p.entries > 0);
+      const reachable =
+        [...trace.manifest, ...trace.readme].some((p) => p.found) || Boolean(trace.tree?.items);
+      const entries = catalog?.entries.length ?? 0;
+      // A registry pinned to `parser.format: tree` is not falling back
+      const fallback = catalog?.fallback && registry.parser?.format !== "tree";
+      return {
+        registry: registry.id,
+        repo: registry.repo,
+        status: !reachable ? "unreachable" : entries === 0 ? "empty" : fallback ? "fallback" : "ok",
+        reachable,
+        format: catalog?.format ?? null,
+        manifest_url: manifest?.url ?? null,
+        readme_url: readme?.url ?? null,
+        branch: catalog?.branch ?? null,
+        formats: trace.formats,
+        entries,
+        fallback: trace.tree !== null,
+        tree_truncated: trace.tree?.truncated ?? null,
+        timings_ms: {
+          manifest: trace.manifest.reduce((sum, p) => sum + p.ms, 0),
+          readme: trace.readme.reduce((sum, p) => sum + p.ms, 0),
+          tree: trace.tree?.ms ?? null,
+          total,
+        },
+        manifest_probes: trace.manifest,
+        readme_probes: trace.readme,
+        page_probes: trace.pages,
+        errors: fetchFailures.get(registry.id) ?? [],
+      };
+    }
   );
+
+  const failing = health.filter((h) => h.status === "unreachable" || h.status === "empty");
+  const summary = {
+    checked_at: new Date(checked).toISOString(),
+    total: health.length,
+    ok: health.filter((h) => h.status === "ok").length,
+    fallback: health.filter((h) => h.status === "fallback").length,
+    failing: failing.length,
+  };
+  const rows = health.map((h) => ({
+    registry: h.registry,
+    status: h.status,
+    format: h.format,
+    branch: h.branch,
+    entries: h.entries,
+    formats: Object.entries(h.formats)
+      .map(([format, n]) => `${format}:${n}`)
+      .join(" "),
+    truncated: h.tree_truncated,
+    errors: h.errors.length,
+    ms: h.timings_ms.total,
+  }));
+  printOutput(args.format, { ...summary, rate_limits: [...rateLimits.values()], registries: health }, {
+    title: "Registry Health",
+    columns: [
+      { key: "registry", header: "Registry" },
+      { key: "status", header: "Status" },
+      { key: "format", header: "Format" },
+      { key: "branch", header: "Branch" },
+      { key: "entries", header: "Entries" },
+      { key: "formats", header: "README formats", maxWidth: 40 },
+      { key: "truncated", header: "Truncated" },
+      { key: "errors", header: "Errors" },
+      { key: "ms", header: "Time (ms)" },
+    ],
+    rows,
+    footer: `${summary.ok} ok, ${summary.fallback} using tree fallback, ${summary.failing} failing`,
+  }, health);
+
+  if (failing.length) process.exit(1);
 }
 
 // --- Main search ---
 
-async function cmdSearch(args: CLIArgs): Promise<void> {
+function searchUsageError(message: string, extra: Record<string, unknown> = {}): never {
+  console.log(JSON.stringify({ error: message, ...extra }));
+  process.exit(1);
+}
+
+function findRegistry(selector: string, all = loadRegistries()): Registry | undefined {
+  const needle = selector.toLowerCase();
+  return all.find(
+    (r) =>
+      r.id.toLowerCase() === needle ||
+      r.repo.toLowerCase() === needle ||
+      r.name.toLowerCase() === needle
+  );
+}
+
+/** Registries selected with --registry (by id, repo or name), or all enabled ones. */
+function selectRegistries(selectors: string[]): Registry[] {
+  const all = loadRegistries();
+  if (!selectors.length) return all.filter((r) => r.enabled);
+
+  return selectors.map((sel) => {
+    const match = findRegistry(sel, all);
+    if (!match) {
+      searchUsageError(`Unknown registry '${sel}'`, { registries: all.map((r) => r.id) });
+    }
+    return match;
+  });
+}
+
+/** Validate search options and parse the keywords (query syntax or regexes). */
+function prepareSearch(args: CLIArgs): { query: ParsedQuery | null; patterns: RegExp[] } {
   if (!args.keywords.length) {
-    console.log(
-      JSON.stringify({
-        error:
-          "Usage: npx -y bun run search_github.ts <keyword1> [keyword2] ... [--descriptions] [--threshold N]",
-      })
+    searchUsageError(
+      "Usage: npx -y bun run search_github.ts <keyword1> [keyword2] ... [--descriptions] [--threshold N] [--registry ID] [--category NAME] [--limit N] [--offset N] [--exact|--regex] [--metadata] [--tools T] [--license L] [--no-requires] [--user-invocable] [--model-invocable] [--deep] [--explain] [--why NAME] [--offline] [--refresh]"
     );
-    process.exit(1);
   }
+  if (!Number.isInteger(args.limit) || args.limit < 1) {
+    searchUsageError("--limit must be a positive integer");
+  }
+  if (!Number.isInteger(args.offset) || args.offset < 0) {
+    searchUsageError("--offset must be a non-negative integer");
+  }
+  if (args.exact && args.regex) {
+    searchUsageError("--exact and --regex cannot be combined");
+  }
+
+  const queryText = args.keywords.join(" ");
+  if (args.regex) {
+    try {
+      return { query: null, patterns: args.keywords.map((kw) => new RegExp(kw, "i")) };
+    } catch (e) {
+      searchUsageError(`Invalid regex: ${(e as Error).message}`, { query: queryText });
+    }
+  }
+
+  const parsed = parseQuery(queryText);
+  if ("error" in parsed) {
+    searchUsageError(`Invalid query: ${parsed.error}`, {
+      query: queryText,
+      position: parsed.position,
+    });
+  }
+  return { query: parsed, patterns: [] };
+}
 
-  const registries = loadRegistries().filter((r) => r.enabled);
+/**
+ * Load catalogs, filter, rank, threshold, dedup and page. Every intermediate
+ * stage is kept so --why can tell where a skill dropped out.
+ */
+async function runSearch(args: CLIArgs): Promise<SearchRun> {
+  const { query, patterns } = prepareSearch(args);
+  const registries = selectRegistries(args.registries);
 
   if (registries.length === 0) {
-    console.log(JSON.stringify({ error: "No enabled registries found" }));
-    process.exit(1);
+    searchUsageError("No enabled registries found");
   }
 
-  // Search all enabled registries in parallel
-  const searchResults = await Promise.all(
-    registries.map((reg) =>
-      searchRegistryViaReadme(reg, args.keywords, args.threshold)
-    )
-  );
+  // Load the selected registries in parallel, then rank over one shared index
+  const catalogs = await mapLimit(registries, REGISTRY_CONCURRENCY, loadRegistryCatalog);
+  const candidates = collectDocuments(registries, catalogs);
+  let docs = candidates;
+  if (args.category) {
+    const wanted = tokenize(args.category).join(" ");
+    docs = docs.filter((d) => tokenize(d.entry.category).join(" ").includes(wanted));
+  }
+  if (args.deep) await loadSkillContent(docs);
 
-  const seenKeys = new Set<string>();
-  const allResults: SkillResult[] = [];
+  const index = buildIndex(docs);
+  const weights = loadRankingWeights();
+  const ranked = query
+    ? rankDocuments(index, query, weights, args.exact ? "exact" : "fuzzy")
+    : rankByRegex(index, patterns, weights);
 
-  for (const { results } of searchResults) {
-    for (const r of results) {
-      const key = `${r.source}/${r.name}`.toLowerCase();
-      if (!seenKeys.has(key)) {
-        seenKeys.add(key);
-        allResults.push(r);
-      }
+  // Every registry listing each skill, matched or not, and its longest description
+  const listings = new Map<string, { registries: Set<string>; description: string }>();
+  for (const { entry, registry } of candidates) {
+    const key = skillIdentity(entry);
+    const listing = listings.get(key) ?? { registries: new Set(), description: "" };
+    listing.registries.add(registry.id);
+    if (entry.description.length > listing.description.length) listing.description = entry.description;
+    listings.set(key, listing);
+  }
+
+  const keptByKey = new Map<string, number>();
+  const duplicates = new Map<number, number>();
+  let results: SkillResult[] = [];
+  const resultDocs = new Map<SkillResult, number>();
+
+  ranked.sort((a, b) => b.score - a.score || a.doc - b.doc);
+  for (const { doc, score, excluded, matches } of ranked) {
+    if (excluded || score < args.threshold) continue;
+    const key = skillIdentity(docs[doc].entry);
+    const kept = keptByKey.get(key);
+    if (kept !== undefined) {
+      duplicates.set(doc, kept);
+      continue;
     }
+    keptByKey.set(key, doc);
+    const listing = listings.get(key)!;
+    const r = toResult(docs[doc], Math.round(score * listingMultiplier(listing.registries.size, weights) * 1000) / 1000);
+    r.listed_in = [...listing.registries];
+    r.description = listing.description || undefined;
+    const { content, metadata } = docs[doc];
+    if (metadata) r.metadata = metadata;
+    const pattern = content ? contentPattern(matches) : null;
+    const snippet = pattern && matchSnippet(content!, pattern);
+    if (snippet) r.snippet = snippet;
+    results.push(r);
+    resultDocs.set(r, doc);
+  }
+
+  // Metadata filters need every candidate's SKILL.md, so they run before paging
+  const metadataFiltered = new Set<number>();
+  if (hasMetadataFilters(args)) {
+    await loadSkillMetadata(results.map((r) => [r, docs[resultDocs.get(r)!]]));
+    results = results.filter((r) => {
+      if (metadataAllows(r.metadata, args)) return true;
+      metadataFiltered.add(resultDocs.get(r)!);
+      return false;
+    });
   }
 
-  allResults.sort((a, b) => b.score - a.score);
+  results.sort(compareResults);
+  const page = results.slice(args.offset, args.offset + args.limit);
+
+  return {
+    registries,
+    catalogs,
+    candidates,
+    docs,
+    ranked,
+    results,
+    page,
+    resultDocs,
+    duplicates,
+    metadataFiltered,
+    weights,
+  };
+}
+
+/** Being listed in more registries is a quality signal. */
+function listingMultiplier(listings: number, weights: RankingWeights): number {
+  return 1 + weights.listing_boost * (listings - 1);
+}
+
+function explainRanking(
+  doc: SearchDocument,
+  ranked: RankedDocument,
+  listings: number,
+  weights: RankingWeights
+): ScoreExplanation {
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  return {
+    origin: doc.format,
+    registry: doc.registry.id,
+    score: ranked.score,
+    best_term: round(ranked.best),
+    coverage: round(ranked.coverage),
+    listings,
+    listing_multiplier: round(listingMultiplier(listings, weights)),
+    matches: ranked.matches.map((m) => ({
+      term: m.term,
+      field: m.field,
+      token: m.token,
+      rule: m.rule,
+      raw: round(m.strength),
+      weighted: round(m.score),
+      idf: m.idf,
+    })),
+  };
+}
+
+async function cmdSearch(args: CLIArgs): Promise<void> {
+  const run = await runSearch(args);
+  const { registries, catalogs, results: allResults, page: top } = run;
+
+  // README links resolve to their SKILL.md; other frontmatter is only read
+  // when asked for, since each result costs a request
+  const showMetadata = args.metadata || hasMetadataFilters(args);
+  const perRegistry = new Map<string, number>();
+  await loadSkillMetadata(
+    top
+      .map((r): [SkillResult, SearchDocument] => [r, run.docs[run.resultDocs.get(r)!]])
+      .filter(([r, doc]) => {
+        if (showMetadata || doc.format === "readme") return true;
+        if (doc.format !== "tree" || r.description) return false;
+        const n = perRegistry.get(doc.registry.id) ?? 0;
+        perRegistry.set(doc.registry.id, n + 1);
+        return n < MAX_TREE_DESCRIPTIONS;
+      })
+  );
+
+  if (args.explain) {
+    const rankedByDoc = new Map(run.ranked.map((r) => [r.doc, r]));
+    for (const r of top) {
+      const doc = run.resultDocs.get(r)!;
+      r.explain = explainRanking(run.docs[doc], rankedByDoc.get(doc)!, r.listed_in?.length ?? 1, run.weights);
+    }
+  }
 
   // Strip description from output unless --descriptions is set
-  const outputResults = allResults.slice(0, MAX_RESULTS).map((r) => {
+  const outputResults = top.map((r) => {
     const out: Record<string, unknown> = {
       name: r.name,
       source: r.source,
@@ -864,45 +5497,359 @@ async function cmdSearch(args: CLIArgs): Promise<void> {
       if (r.description) out.description = r.description;
       if (r.category) out.category = r.category;
     }
+    if (r.plugin) out.plugin = r.plugin;
+    if (r.version) out.version = r.version;
+    if (r.listed_in) out.listed_in = r.listed_in;
+    if (r.repo) out.repo = r.repo;
+    if (r.not_skill) out.not_skill = r.not_skill;
+    if (showMetadata && r.metadata && Object.keys(r.metadata).length) out.metadata = r.metadata;
+    if (r.snippet) out.snippet = r.snippet;
+    if (r.explain) out.explain = r.explain;
     return out;
   });
 
+  const nextOffset = args.offset + top.length;
   const output: SearchOutput = {
     keywords: args.keywords,
     total: allResults.length,
+    paging: {
+      offset: args.offset,
+      limit: args.limit,
+      returned: top.length,
+      next_offset: nextOffset < allResults.length ? nextOffset : null,
+    },
     results: outputResults as unknown as SkillResult[],
   };
+  const staleCaches: string[] = [];
+  if (args.offline) {
+    output.cache = registries.map((reg, i) => cacheStatus(reg, catalogs[i]));
+    // Registries missing from the cache are already listed as unreachable
+    for (const status of output.cache.filter((c) => c.stale && c.fetched_at)) {
+      staleCaches.push(`Offline: registry ${status.registry} cache is stale (fetched ${status.fetched_at})`);
+    }
+  }
+  // Lets "no matches" be told apart from "registry unreachable"
+  const errors = registryErrors(registries, catalogs);
+  if (errors.length) output.registry_errors = errors;
+  if (rateLimits.size) output.rate_limits = [...rateLimits.values()];
 
-  console.log(JSON.stringify(output, null, 2));
+  const first = args.offset + 1;
+  printOutput(
+    args.format,
+    output,
+    {
+      title: `Search Results for: ${args.keywords.join(" ")}`,
+      columns: [
+        { key: "rank", header: "#" },
+        { key: "name", header: "Skill Name", maxWidth: 30 },
+        { key: "source", header: "Source", maxWidth: 30 },
+        // Same layout as the table SKILL.md presents, plus score outside markdown
+        { key: "installs", header: "Installs", only: ["table", "markdown"] },
+        { key: "score", header: "Score", only: ["table", "csv"] },
+        { key: "description", header: "Description", maxWidth: 60 },
+        ...(args.deep ? [{ key: "snippet", header: "Match", maxWidth: 80 }] : []),
+        { key: "category", header: "Category", only: ["csv"] },
+        { key: "url", header: "URL", only: ["csv"] },
+        { key: "raw_url", header: "Raw URL", only: ["csv"] },
+        { key: "branch", header: "Branch", only: ["csv"] },
+        { key: "path", header: "Path", only: ["csv"] },
+        { key: "listed_in", header: "Listed In", only: ["csv"] },
+        { key: "repo", header: "Repo", only: ["csv"] },
+        { key: "not_skill", header: "Not a Skill", only: ["csv"] },
+        { key: "allowed_tools", header: "Allowed Tools", only: ["csv"] },
+        { key: "requires", header: "Requires", only: ["csv"] },
+        { key: "license", header: "License", only: ["csv"] },
+      ],
+      rows: top.map((r, i) => ({
+        rank: first + i,
+        ...r,
+        listed_in: r.listed_in?.join(" "),
+        allowed_tools: r.metadata?.["allowed-tools"]?.join(" "),
+        requires: r.metadata?.requires?.join(" "),
+        license: r.metadata?.license,
+        installs: "-",
+      })),
+      footer: [
+        top.length ? `Showing ${first}-${args.offset + top.length} of ${allResults.length} results` : "No results",
+        ...errors.map((e) => `Registry ${e.registry} ${e.status}: ${e.error}`),
+        ...staleCaches,
+      ].join("\n"),
+    },
+    outputResults
+  );
 }
 
-function cmdShowPreferences(): void {
-  const prefs = loadPreferences();
-  if (!prefs) {
-    console.log(JSON.stringify({ 
-      preferences: {
-        install_method: 'ask',
-        install_location: 'ask'
+/**
+ * Report where each occurrence of a named skill dropped out of the search
+ * pipeline: category filter, no keyword match, boolean query, threshold,
+ * deduplication, metadata filters or paging.
+ */
+async function cmdWhy(args: CLIArgs, name: string): Promise<void> {
+  const run = await runSearch(args);
+  const wanted = tokenize(name).join(" ");
+  const rankedByDoc = new Map(run.ranked.map((r) => [r.doc, r]));
+  const docIds = new Map(run.docs.map((d, i) => [d, i]));
+  const rankOf = new Map(run.results.map((r, i) => [run.resultDocs.get(r)!, i + 1]));
+
+  const occurrences = run.candidates
+    .filter((d) => tokenize(d.entry.name).join(" ") === wanted)
+    .map((d) => {
+      const base = {
+        registry: d.registry.id,
+        source: d.format === "readme" ? d.registry.repo : d.entry.source,
+        origin: d.format,
+        name: d.entry.name,
+        url: d.entry.url,
+      };
+      const id = docIds.get(d);
+      if (id === undefined) {
+        return { ...base, status: "filtered", reason: `Category '${d.entry.category}' does not match --category ${args.category}` };
+      }
+
+      const ranked = rankedByDoc.get(id);
+      if (!ranked) {
+        return { ...base, status: "no_match", reason: "No keyword matched the name, description or category" };
+      }
+      const key = skillIdentity(d.entry);
+      const listings = new Set(
+        run.candidates.filter((c) => skillIdentity(c.entry) === key).map((c) => c.registry.id)
+      ).size;
+      const explain = explainRanking(d, ranked, listings, run.weights);
+      if (ranked.excluded) {
+        return { ...base, status: "excluded", reason: "Matched a keyword but failed the query (negated term, AND, or field filter)", explain };
+      }
+      if (ranked.score < args.threshold) {
+        return { ...base, status: "below_threshold", reason: `Score ${ranked.score} is below threshold ${args.threshold}`, explain };
+      }
+      const kept = run.duplicates.get(id);
+      if (kept !== undefined) {
+        const other = run.docs[kept];
+        return { ...base, status: "duplicate", reason: `Deduplicated in favour of '${other.entry.name}' from ${other.registry.id} (score ${rankedByDoc.get(kept)!.score})`, explain };
+      }
+
+      if (run.metadataFiltered.has(id)) {
+        return { ...base, status: "metadata_filtered", reason: "SKILL.md frontmatter is missing or fails --tools, --license, --no-requires or the invocation flags", explain };
+      }
+
+      const rank = rankOf.get(id)!;
+      if (rank <= args.offset || rank > args.offset + args.limit) {
+        return { ...base, status: "outside_page", reason: `Ranked #${rank}, outside offset ${args.offset} / limit ${args.limit}`, rank, explain };
+      }
+      return { ...base, status: "included", reason: `Ranked #${rank}`, rank, explain };
+    });
+
+  const unloaded = run.registries
+    .filter((_, i) => !run.catalogs[i])
+    .map((r) => r.id);
+  const errors = registryErrors(run.registries, run.catalogs);
+
+  console.log(
+    JSON.stringify(
+      {
+        name,
+        keywords: args.keywords,
+        threshold: args.threshold,
+        found: occurrences.length > 0,
+        reason: occurrences.length
+          ? undefined
+          : "No registry catalog contains a skill with this name (README parsing or tree discovery did not find it)",
+        unreachable_registries: unloaded.length ? unloaded : undefined,
+        registry_errors: errors.length ? errors : undefined,
+        occurrences,
       },
-      source: 'defaults'
-    }));
-  } else {
-    console.log(JSON.stringify({ preferences: prefs, source: 'config.yaml' }));
-  }
+      null,
+      2
+    )
+  );
+}
+
+function cmdClearCache(): void {
+  const removed = clearCache();
+  console.log(JSON.stringify({ success: `Cleared ${removed} cache entries` }));
+}
+
+const PREFERENCE_LAYER_FILES: Record<Exclude<ConfigLayer, "defaults">, string> = {
+  user: "~/.config/inm-skill-finder/config.yaml",
+  project: "config.yaml",
+  local: "config.local.yaml",
+};
+
+function cmdShowPreferences(format: OutputFormat): void {
+  const { values } = loadConfig();
+  const preferences = loadPreferences() ?? {};
+  // Layer each setting came from: defaults, user, project or local
+  const sources: Record<string, ConfigLayer> = Object.fromEntries(
+    Object.keys(preferences).map((setting) => [setting, values[`preferences.${setting}`]?.source ?? "defaults"])
+  );
+  // `source` predates per-setting sources: the most specific layer that set a preference
+  const layer = (["local", "project", "user"] as const).find((l) => Object.values(sources).includes(l));
+  const source = layer ? PREFERENCE_LAYER_FILES[layer] : "defaults";
+  const payload = { preferences, source, sources };
+
+  const rows = Object.entries(preferences).map(([setting, value]) => ({
+    setting,
+    value,
+    source: sources[setting],
+  }));
+  printOutput(
+    format,
+    payload,
+    {
+      columns: [
+        { key: "setting", header: "Setting" },
+        { key: "value", header: "Value" },
+        { key: "source", header: "Source" },
+      ],
+      rows,
+    },
+    [payload],
+    0
+  );
+}
+
+/** The merged configuration, with the layer each value came from. */
+function cmdShowConfig(format: OutputFormat): void {
+  const { config, values, files } = loadConfig();
+  const sources = Object.fromEntries(Object.entries(values).map(([key, { source }]) => [key, source]));
+  const rows = Object.entries(values).map(([key, { value, source }]) => ({
+    key,
+    value: typeof value === "string" ? value : JSON.stringify(value),
+    source,
+  }));
+  printOutput(
+    format,
+    { config, sources, files },
+    {
+      columns: [
+        { key: "key", header: "Key", maxWidth: 60 },
+        { key: "value", header: "Value", maxWidth: 50 },
+        { key: "source", header: "Source" },
+      ],
+      rows,
+      footer: files
+        .filter((f) => f.exists)
+        .map((f) => `${f.layer}: ${f.path}`)
+        .join("\n"),
+    }
+  );
+}
+
+/** Every problem in every config file; exits 1 if any of them is an error. */
+function cmdValidateConfig(format: OutputFormat): void {
+  const { files, issues } = mergeConfigLayers();
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  const rows = issues.map((issue) => ({ ...issue, line: issue.line ?? "" }));
+  printOutput(
+    format,
+    { valid: errors === 0, files: files.filter((f) => f.exists).map((f) => f.path), issues },
+    {
+      columns: [
+        { key: "severity", header: "Severity" },
+        { key: "file", header: "File", maxWidth: 50 },
+        { key: "line", header: "Line" },
+        { key: "field", header: "Field", maxWidth: 40 },
+        { key: "message", header: "Message", maxWidth: 70 },
+      ],
+      rows,
+      footer: `${errors} errors, ${issues.length - errors} warnings`,
+    },
+    issues
+  );
+  if (errors) process.exit(1);
 }
 
 // --- Entry point ---
 
 async function main() {
+  installRedaction();
   const args = parseArgs(process.argv.slice(2));
+  if (!OUTPUT_FORMATS.includes(args.format)) {
+    console.log(
+      JSON.stringify({ error: `Unknown format '${args.format}' (expected ${OUTPUT_FORMATS.join(", ")})` })
+    );
+    process.exit(1);
+  }
+
+  // Runs before anything else loads (and enforces) the config
+  if (args.validateConfig) {
+    cmdValidateConfig(args.format);
+    return;
+  }
+
+  cacheSettings = {
+    ttl: loadCacheTTL(),
+    offline: args.offline,
+    // Installs and update checks always revalidate against upstream
+    refresh:
+      args.refresh ||
+      Boolean(args.install || args.audit) ||
+      args.checkUpdates ||
+      args.sync ||
+      args.checkRegistries,
+  };
+
+  if (args.clearCache) {
+    cmdClearCache();
+    return;
+  }
 
   if (args.listRegistries) {
-    cmdListRegistries();
+    cmdListRegistries(args.format);
     return;
   }
 
   if (args.showPreferences) {
-    cmdShowPreferences();
+    cmdShowPreferences(args.format);
+    return;
+  }
+
+  if (args.showConfig) {
+    cmdShowConfig(args.format);
+    return;
+  }
+
+  if (args.checkRegistries) {
+    await cmdCheckRegistries(args);
+    return;
+  }
+
+  if (args.install) {
+    await cmdInstall(args);
+    return;
+  }
+
+  if (args.audit) {
+    await cmdAudit(args);
+    return;
+  }
+
+  if (args.show) {
+    await cmdShow(args);
+    return;
+  }
+
+  if (args.listInstalled) {
+    cmdListInstalled(args);
+    return;
+  }
+
+  if (args.uninstall) {
+    cmdUninstall(args.uninstall, args.installLocation);
+    return;
+  }
+
+  if (args.checkUpdates) {
+    await cmdCheckUpdates(args);
+    return;
+  }
+
+  if (args.sync) {
+    await cmdSync(args);
+    return;
+  }
+
+  if (args.verify) {
+    cmdVerify(args);
     return;
   }
 
@@ -926,10 +5873,68 @@ async function main() {
     return;
   }
 
+  if (args.why) {
+    await cmdWhy(args, args.why);
+    return;
+  }
+
   await cmdSearch(args);
 }
 
-main().catch((err) => {
-  console.error(JSON.stringify({ error: (err as Error).message }));
-  process.exit(1);
-});
+// For scripts/search_github.test.ts
+export {
+  mergeLayer,
+  cmdValidateConfig,
+  cmdShowPreferences,
+  cacheSettings,
+  addSecret,
+  redact,
+  credentialRegistry,
+  rawFetch,
+  cacheStatus,
+  recordRateLimit,
+  rateLimitWait,
+  providerFor,
+  parseReadme,
+  treePathAllowed,
+  gitBlobSha,
+  parseSkillSpec,
+  installSkill,
+  scanInstalledSkills,
+  checkSkillUpdate,
+  lockPath,
+  readLock,
+  writeLock,
+  updateLock,
+  lockEntryFor,
+  parseArgs,
+  cmdVerify,
+  printOutput,
+  cmdCheckRegistries,
+  cmdShow,
+  runSearch,
+  cmdWhy,
+  skillMetadata,
+  hasMetadataFilters,
+  metadataAllows,
+  skillIdentity,
+  resolveReadmeResults,
+  parseMarketplace,
+  crawlReadme,
+  AUDIT_RULES,
+  auditSkillDir,
+  DEFAULT_RANKING,
+  lexQuery,
+  parseQuery,
+  buildIndex,
+  rankDocuments,
+  contentPattern,
+  matchSnippet,
+};
+
+if (import.meta.main) {
+  main().catch((err) => {
+    console.error(JSON.stringify({ error: (err as Error).message }));
+    process.exit(1);
+  });
+}